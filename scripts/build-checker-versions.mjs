@@ -0,0 +1,188 @@
+#!/usr/bin/env node
+/**
+ * Script to build the extra checker versions listed in checker-versions.json, so the
+ * playground can run them next to the bundled ones.
+ *
+ * Pyright and BasedPyright versions are npm releases of their browser packages; the
+ * worker scripts are unpacked from `npm pack`. ty versions are ty releases, resolved to
+ * the ruff commit the release was built from, or git refs of the ruff-source submodule;
+ * Pyrefly versions are git refs (tags or commits) of the pyrefly-source submodule. Each
+ * is checked out in a temporary worktree and built with wasm-pack.
+ *
+ * Builds are written to public/checker-versions/<checker>/<version>/ and served as
+ * they are. src/services/checkerVersions.generated.json (not committed) records the
+ * versions that were built and the version of each bundled checker, which the version
+ * selector shows. Versions that are already built are kept; versions that fail to build
+ * are reported and left out.
+ *
+ * Usage: node scripts/build-checker-versions.mjs [--force] [checker...]
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.join(__dirname, '..');
+const MANIFEST_FILE = path.join(ROOT_DIR, 'checker-versions.json');
+const OUTPUT_DIR = path.join(ROOT_DIR, 'public/checker-versions');
+const INDEX_FILE = path.join(ROOT_DIR, 'src/services/checkerVersions.generated.json');
+
+// Where each checker's versions come from, and the file the playground loads
+const SOURCES = {
+    pyright: { type: 'npm', package: '@typefox/pyright-browser', entry: 'pyright.worker.js' },
+    basedpyright: { type: 'npm', package: 'browser-basedpyright', entry: 'pyright.worker.js' },
+    ty: {
+        type: 'wasm',
+        repo: 'ruff-source',
+        crate: 'crates/ty_wasm',
+        entry: 'ty_wasm.js',
+        // ty is released from its own repository, which pins ruff as a submodule
+        releases: { url: 'https://github.com/astral-sh/ty.git', submodule: 'ruff' }
+    },
+    pyrefly: { type: 'wasm', repo: 'pyrefly-source', crate: 'pyrefly_wasm', entry: 'pyrefly_wasm.js' }
+};
+
+function parseArgs(argv) {
+    const checkers = argv.filter(arg => !arg.startsWith('--'));
+    for (const checker of checkers) {
+        if (!(checker in SOURCES)) {
+            console.error(`Unknown checker: ${checker}. Expected one of ${Object.keys(SOURCES).join(', ')}.`);
+            process.exit(1);
+        }
+    }
+    return {
+        force: argv.includes('--force'),
+        checkers: checkers.length > 0 ? checkers : Object.keys(SOURCES)
+    };
+}
+
+function run(command, args, options = {}) {
+    return execFileSync(command, args, { encoding: 'utf8', stdio: ['ignore', 'pipe', 'inherit'], ...options }).trim();
+}
+
+// The version of the bundled checker: the installed package's, or the submodule's tag or commit
+function bundledVersion(source) {
+    if (source.type === 'npm') {
+        const packageFile = path.join(ROOT_DIR, 'node_modules', source.package, 'package.json');
+        return fs.existsSync(packageFile) ? JSON.parse(fs.readFileSync(packageFile, 'utf8')).version : null;
+    }
+    const repoDir = path.join(ROOT_DIR, source.repo);
+    if (!fs.existsSync(path.join(repoDir, '.git'))) return null;
+    return run('git', ['-C', repoDir, 'describe', '--tags', '--always']);
+}
+
+function buildNpmVersion(source, version, outDir) {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'checker-version-'));
+    try {
+        const tarball = run('npm', ['pack', `${source.package}@${version}`, '--pack-destination', tmpDir, '--silent']);
+        run('tar', ['-xzf', path.join(tmpDir, tarball.split('\n').pop()), '-C', tmpDir]);
+        fs.cpSync(path.join(tmpDir, 'package/dist'), outDir, { recursive: true });
+    } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+}
+
+// The commit a release tag pins its submodule to, or the version itself if it is not a release
+function resolveRelease(source, repoDir, version) {
+    if (!source.releases) return version;
+    const tag = run('git', ['ls-remote', '--tags', source.releases.url, `refs/tags/${version}`]);
+    if (!tag) return version;
+
+    run('git', ['-C', repoDir, 'fetch', '--depth', '1', source.releases.url, `refs/tags/${version}`]);
+    const entry = run('git', ['-C', repoDir, 'ls-tree', 'FETCH_HEAD', source.releases.submodule]);
+    if (!entry) {
+        throw new Error(`${version} does not pin ${source.releases.submodule}`);
+    }
+    return entry.split(/\s+/)[2];
+}
+
+function buildWasmVersion(source, version, outDir) {
+    const repoDir = path.join(ROOT_DIR, source.repo);
+    if (!fs.existsSync(path.join(repoDir, '.git'))) {
+        throw new Error(`${source.repo} is not checked out. Run \`git submodule update --init ${source.repo}\`.`);
+    }
+    const ref = resolveRelease(source, repoDir, version);
+
+    // Submodules are usually shallow, so fetch refs that are not there yet
+    let commit;
+    try {
+        commit = run('git', ['-C', repoDir, 'rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+    } catch {
+        run('git', ['-C', repoDir, 'fetch', '--depth', '1', 'origin', ref]);
+        commit = run('git', ['-C', repoDir, 'rev-parse', 'FETCH_HEAD']);
+    }
+
+    const worktreeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'checker-version-'));
+    try {
+        run('git', ['-C', repoDir, 'worktree', 'add', '--detach', '--force', worktreeDir, commit]);
+        execFileSync('wasm-pack', [
+            'build', path.join(worktreeDir, source.crate),
+            '--target', 'web',
+            '--out-dir', outDir
+        ], { stdio: 'inherit' });
+    } finally {
+        try {
+            run('git', ['-C', repoDir, 'worktree', 'remove', '--force', worktreeDir]);
+        } catch {
+            // The worktree was never added
+        }
+        fs.rmSync(worktreeDir, { recursive: true, force: true });
+    }
+}
+
+function main() {
+    const { force, checkers } = parseArgs(process.argv.slice(2));
+    const manifest = JSON.parse(fs.readFileSync(MANIFEST_FILE, 'utf8'));
+    const index = fs.existsSync(INDEX_FILE) ? JSON.parse(fs.readFileSync(INDEX_FILE, 'utf8')) : {};
+    const failures = [];
+
+    for (const [checker, source] of Object.entries(SOURCES)) {
+        const versions = manifest[checker] ?? [];
+        if (!checkers.includes(checker)) {
+            index[checker] ??= { bundled: bundledVersion(source), builds: [] };
+            continue;
+        }
+
+        const builds = [];
+        for (const version of versions) {
+            const outDir = path.join(OUTPUT_DIR, checker, version);
+            const entry = path.join(outDir, source.entry);
+
+            if (force || !fs.existsSync(entry)) {
+                console.log(`Building ${checker} ${version}...`);
+                fs.rmSync(outDir, { recursive: true, force: true });
+                try {
+                    if (source.type === 'npm') {
+                        buildNpmVersion(source, version, outDir);
+                    } else {
+                        buildWasmVersion(source, version, outDir);
+                    }
+                } catch (error) {
+                    console.error(`Failed to build ${checker} ${version}: ${error.message}`);
+                    failures.push(`${checker} ${version}`);
+                    fs.rmSync(outDir, { recursive: true, force: true });
+                    continue;
+                }
+            } else {
+                console.log(`${checker} ${version} is already built`);
+            }
+
+            builds.push({ version, path: path.relative(path.join(ROOT_DIR, 'public'), entry).split(path.sep).join('/') });
+        }
+
+        index[checker] = { bundled: bundledVersion(source), builds };
+    }
+
+    fs.writeFileSync(INDEX_FILE, JSON.stringify(index, null, 2) + '\n');
+    console.log(`Written to: ${INDEX_FILE}`);
+
+    if (failures.length > 0) {
+        console.error(`Could not build: ${failures.join(', ')}`);
+        process.exit(1);
+    }
+}
+
+main();
@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+/**
+ * Script to bundle the typeshed stdlib stubs that ship with the pinned pyright npm
+ * package as JSON. The @typefox/pyright-browser worker has no stubs of its own, and
+ * using the typeshed snapshot Pyright was released with keeps its results in line
+ * with the pyright CLI of the same version.
+ *
+ * Usage: node scripts/bundle-pyright-typeshed.mjs
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TYPESHED_DIR = path.join(__dirname, '../node_modules/pyright/dist/typeshed-fallback');
+const OUTPUT_FILE = path.join(__dirname, '../src/services/lsp/pyrightTypeshed.json');
+
+// Essential modules for basic Python type checking
+const ESSENTIAL_MODULES = [
+    'VERSIONS',
+    'builtins.pyi',
+    'typing.pyi',
+    'typing_extensions.pyi',
+    '_typeshed',
+    'collections',
+    'abc.pyi',
+    'types.pyi',
+    'sys.pyi',
+    'os',
+    'io.pyi',
+    're.pyi',
+    'functools.pyi',
+    'itertools.pyi',
+    'contextlib.pyi',
+    'dataclasses.pyi',
+    'enum.pyi',
+    'json',
+    'pathlib.pyi',
+    'datetime.pyi',
+    'copy.pyi',
+    'warnings.pyi',
+    'weakref.pyi',
+];
+
+function readDirectory(dirPath, files, depth = 0) {
+    const entries = fs.readdirSync(path.join(TYPESHED_DIR, 'stdlib', dirPath), { withFileTypes: true })
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+        // Skip tests
+        if (entry.name.startsWith('@')) continue;
+
+        // For root level, only bundle essential modules
+        if (depth === 0 && !ESSENTIAL_MODULES.some(m => entry.name === m || entry.name.startsWith(m.split('.')[0]))) {
+            continue;
+        }
+
+        if (entry.isFile() && (entry.name.endsWith('.pyi') || entry.name === 'VERSIONS')) {
+            const relativePath = `${dirPath}/${entry.name}`;
+            files[`/typeshed/stdlib${relativePath}`] = fs.readFileSync(
+                path.join(TYPESHED_DIR, 'stdlib', relativePath),
+                'utf8'
+            );
+        } else if (entry.isDirectory()) {
+            readDirectory(`${dirPath}/${entry.name}`, files, depth + 1);
+        }
+    }
+}
+
+function main() {
+    if (!fs.existsSync(TYPESHED_DIR)) {
+        console.error(`Typeshed not found at ${TYPESHED_DIR}. Run \`yarn install\` first.`);
+        process.exit(1);
+    }
+
+    const commit = fs.readFileSync(path.join(TYPESHED_DIR, 'commit.txt'), 'utf8').trim();
+    console.log(`Bundling typeshed ${commit} from the pyright package...`);
+
+    const files = {};
+    readDirectory('', files, 0);
+
+    console.log(`Bundled ${Object.keys(files).length} files`);
+
+    fs.writeFileSync(OUTPUT_FILE, JSON.stringify(files, null, 2));
+    console.log(`Written to: ${OUTPUT_FILE}`);
+
+    const stats = fs.statSync(OUTPUT_FILE);
+    console.log(`File size: ${(stats.size / 1024).toFixed(2)} KB`);
+}
+
+main();
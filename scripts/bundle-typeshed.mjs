@@ -1,165 +1,93 @@
 #!/usr/bin/env node
 /**
- * Script to fetch Python typeshed stdlib stubs from GitHub and bundle them as JSON.
- * This creates a typeshed.json file that can be imported and used to provide
- * type stubs to browser-basedpyright.
- * 
- * Usage: node scripts/bundle-typeshed.mjs
+ * Script to bundle the Python typeshed stdlib stubs from a local typeshed checkout
+ * as JSON. This creates a typeshed.json file that can be imported and used to provide
+ * type stubs to browser-basedpyright, and a typeshedInfo.json file recording the
+ * typeshed commit it was built from, which the UI shows.
+ *
+ * The checkout is the typeshed-source git submodule, pinned to a typeshed commit, so
+ * the bundle is reproducible and can be built offline. A typeshed snapshot with a
+ * commit.txt instead of git metadata (such as the typeshed-fallback directory in the
+ * pyright and basedpyright npm packages) works too.
+ *
+ * Usage: node scripts/bundle-typeshed.mjs [--typeshed <path>]
  */
 
-import https from 'https';
+import { execFileSync } from 'child_process';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_TYPESHED_DIR = path.join(__dirname, '../typeshed-source');
 const OUTPUT_FILE = path.join(__dirname, '../src/services/lsp/typeshed.json');
+const INFO_FILE = path.join(__dirname, '../src/services/lsp/typeshedInfo.json');
 
-// GitHub API base for typeshed stdlib
-const GITHUB_API_BASE = 'https://api.github.com/repos/python/typeshed/contents/stdlib';
-const GITHUB_RAW_BASE = 'https://raw.githubusercontent.com/python/typeshed/main/stdlib';
-
-// Rate limiting helper
-const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Fetch JSON from GitHub API
-function fetchJson(url) {
-    return new Promise((resolve, reject) => {
-        const options = {
-            headers: {
-                'User-Agent': 'omni-python-playground',
-                'Accept': 'application/vnd.github.v3+json'
-            }
-        };
-
-        https.get(url, options, (res) => {
-            let data = '';
-            res.on('data', chunk => data += chunk);
-            res.on('end', () => {
-                if (res.statusCode !== 200) {
-                    reject(new Error(`HTTP ${res.statusCode}: ${data}`));
-                    return;
-                }
-                try {
-                    resolve(JSON.parse(data));
-                } catch (e) {
-                    reject(e);
-                }
-            });
-        }).on('error', reject);
-    });
+function parseArgs(argv) {
+    const index = argv.indexOf('--typeshed');
+    return {
+        typeshedDir: index !== -1 && argv[index + 1] ? path.resolve(argv[index + 1]) : DEFAULT_TYPESHED_DIR
+    };
 }
 
-// Fetch raw file content
-function fetchRaw(url) {
-    return new Promise((resolve, reject) => {
-        const options = {
-            headers: {
-                'User-Agent': 'omni-python-playground'
-            }
-        };
-
-        https.get(url, options, (res) => {
-            let data = '';
-            res.on('data', chunk => data += chunk);
-            res.on('end', () => {
-                if (res.statusCode !== 200) {
-                    reject(new Error(`HTTP ${res.statusCode} for ${url}`));
-                    return;
-                }
-                resolve(data);
-            });
-        }).on('error', reject);
-    });
+// The commit the checkout is at: from git, or from the commit.txt of a snapshot
+function readCommit(typeshedDir) {
+    const commitFile = path.join(typeshedDir, 'commit.txt');
+    if (fs.existsSync(path.join(typeshedDir, '.git'))) {
+        return execFileSync('git', ['-C', typeshedDir, 'rev-parse', 'HEAD'], { encoding: 'utf8' }).trim();
+    }
+    if (fs.existsSync(commitFile)) {
+        return fs.readFileSync(commitFile, 'utf8').trim();
+    }
+    return null;
 }
 
-// Essential modules for basic Python type checking
-const ESSENTIAL_MODULES = [
-    'VERSIONS',
-    'builtins.pyi',
-    'typing.pyi',
-    'typing_extensions.pyi',
-    '_typeshed',
-    'collections',
-    'abc.pyi',
-    'types.pyi',
-    'sys.pyi',
-    'os',
-    'io.pyi',
-    're.pyi',
-    'functools.pyi',
-    'itertools.pyi',
-    'contextlib.pyi',
-    'dataclasses.pyi',
-    'enum.pyi',
-    'json',
-    'pathlib.pyi',
-    'datetime.pyi',
-    'copy.pyi',
-    'warnings.pyi',
-    'weakref.pyi',
-];
+function readDirectory(stdlibDir, dirPath, files) {
+    const entries = fs.readdirSync(path.join(stdlibDir, dirPath), { withFileTypes: true })
+        .sort((a, b) => a.name.localeCompare(b.name));
 
-async function fetchDirectory(dirPath, files, depth = 0) {
-    const indent = '  '.repeat(depth);
-    const url = `${GITHUB_API_BASE}${dirPath}?ref=main`;
-
-    console.log(`${indent}Fetching: ${dirPath || '/'}`);
-
-    const items = await fetchJson(url);
-
-    for (const item of items) {
+    for (const entry of entries) {
         // Skip tests
-        if (item.name.startsWith('@')) continue;
+        if (entry.name.startsWith('@')) continue;
 
-        // For root level, only fetch essential modules
-        if (depth === 0 && !ESSENTIAL_MODULES.some(m => item.name === m || item.name.startsWith(m.split('.')[0]))) {
-            continue;
-        }
-
-        if (item.type === 'file' && (item.name.endsWith('.pyi') || item.name === 'VERSIONS')) {
-            const filePath = `/typeshed/stdlib${dirPath}/${item.name}`;
-            console.log(`${indent}  Downloading: ${item.name}`);
-
-            try {
-                const content = await fetchRaw(item.download_url);
-                files[filePath] = content;
-                // Small delay to avoid rate limiting
-                await sleep(50);
-            } catch (e) {
-                console.error(`${indent}  Error fetching ${item.name}: ${e.message}`);
-            }
-        } else if (item.type === 'dir') {
-            // Recurse into subdirectories for essential modules
-            await fetchDirectory(`${dirPath}/${item.name}`, files, depth + 1);
+        const relativePath = `${dirPath}/${entry.name}`;
+        if (entry.isFile() && (entry.name.endsWith('.pyi') || entry.name === 'VERSIONS')) {
+            files[`/typeshed/stdlib${relativePath}`] = fs.readFileSync(path.join(stdlibDir, relativePath), 'utf8');
+        } else if (entry.isDirectory()) {
+            readDirectory(stdlibDir, relativePath, files);
         }
     }
 }
 
-async function main() {
-    console.log('Fetching Python typeshed stdlib stubs...');
-    console.log('This may take a minute due to GitHub API rate limiting...\n');
-
-    const files = {};
+function main() {
+    const { typeshedDir } = parseArgs(process.argv.slice(2));
+    const stdlibDir = path.join(typeshedDir, 'stdlib');
 
-    try {
-        await fetchDirectory('', files, 0);
+    if (!fs.existsSync(stdlibDir)) {
+        console.error(`Typeshed not found at ${typeshedDir}.`);
+        console.error('Run `git submodule update --init typeshed-source` or pass --typeshed <path>.');
+        process.exit(1);
+    }
 
-        console.log(`\nDownloaded ${Object.keys(files).length} files`);
+    const commit = readCommit(typeshedDir);
+    if (!commit) {
+        console.error(`Cannot tell which typeshed commit ${typeshedDir} is at: it is not a git checkout and has no commit.txt.`);
+        process.exit(1);
+    }
+    console.log(`Bundling typeshed ${commit} from ${typeshedDir}...`);
 
-        // Write to JSON file
-        fs.writeFileSync(OUTPUT_FILE, JSON.stringify(files, null, 2));
-        console.log(`\nWritten to: ${OUTPUT_FILE}`);
+    const files = {};
+    readDirectory(stdlibDir, '', files);
+    const fileCount = Object.keys(files).length;
+    console.log(`Bundled ${fileCount} files`);
 
-        // Calculate size
-        const stats = fs.statSync(OUTPUT_FILE);
-        console.log(`File size: ${(stats.size / 1024).toFixed(2)} KB`);
-        console.log(`Gzipped estimate: ~${(stats.size / 1024 / 3).toFixed(2)} KB`);
+    fs.writeFileSync(OUTPUT_FILE, JSON.stringify(files, null, 2) + '\n');
+    fs.writeFileSync(INFO_FILE, JSON.stringify({ commit, fileCount }, null, 2) + '\n');
+    console.log(`Written to: ${OUTPUT_FILE}`);
+    console.log(`Written to: ${INFO_FILE}`);
 
-    } catch (error) {
-        console.error('Error:', error.message);
-        process.exit(1);
-    }
+    const stats = fs.statSync(OUTPUT_FILE);
+    console.log(`File size: ${(stats.size / 1024).toFixed(2)} KB`);
 }
 
 main();
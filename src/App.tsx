@@ -1,14 +1,55 @@
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import './App.css'
 import CodeEditor, { type CodeEditorHandle } from './components/CodeEditor'
 import DiagnosticsPanel from './components/DiagnosticsPanel'
 import Controls from './components/Controls'
-import { runTypeChecker } from './services/typecheckerService'
-import { createTyLSPClient, closeTyLSPClient } from './services/lsp/tyLSPService'
-import { createBasedPyrightLSPClient, closeBasedPyrightLSPClient } from './services/lsp/basedPyrightLSPService'
+import ComparisonView from './components/ComparisonView'
+import VersionMatrixView from './components/VersionMatrixView'
+import FileExplorer from './components/FileExplorer'
+import EditorTabs from './components/EditorTabs'
+import OutlinePanel from './components/OutlinePanel'
+import SymbolQuickOpen from './components/SymbolQuickOpen'
+import LSPInspector from './components/LSPInspector'
+import SitePackagesPanel from './components/SitePackagesPanel'
+import ExamplesGallery from './components/ExamplesGallery'
+import { PYTHON_VERSIONS } from './constants'
+import {
+  BUNDLED_BUILD,
+  getChecker,
+  getCheckerBuild,
+  getCheckerBuilds,
+  isTypeChecker,
+  LSP_CHECKERS,
+  startupSettingsKey,
+  type CheckerBuild,
+  type CheckerSettings,
+  type TypeChecker
+} from './services/checkers'
+import {
+  createCheckerLSPClient,
+  closeCheckerLSPClient,
+  updateCheckerConfiguration,
+  updateCheckerPythonVersion
+} from './services/lsp/checkerLSPService'
+import { toAppDiagnostic, type LSPDiagnostic } from './services/lsp/diagnostics'
+import { flattenSymbols, requestDocumentSymbols, type OutlineSymbol } from './services/lsp/documentSymbols'
+import {
+  buildComparison,
+  checkerComparison,
+  ComparisonSession,
+  type ComparisonResults
+} from './services/comparisonService'
+import { VersionMatrixSession, type VersionMatrixResults } from './services/versionMatrixService'
+import { createPermalink, decodeStateFromHash } from './services/permalinkService'
+import { fileLanguage, pathToUri, uriToPath, type PlaygroundFile } from './services/workspaceFiles'
+import { DEFAULT_DIAGNOSTICS_FILTER } from './services/diagnosticsFilter'
+import { sitePackageFiles, type InstalledPackage } from './services/sitePackages'
+import { EXAMPLES, type Example } from './services/examples'
+import { CONFIG_TEMPLATES, isConfigFile, resolveCheckerConfig, type ConfigFileName } from './services/checkerConfig'
+import type { PlaygroundWorkspace } from './services/lsp/PlaygroundWorkspace'
 import type { LSPClient } from '@codemirror/lsp-client'
 
-export type TypeChecker = 'pyright' | 'basedpyright' | 'ty' | 'pyrefly'
+export type { TypeChecker }
 export type PythonVersion = '3.9' | '3.10' | '3.11' | '3.12' | '3.13' | '3.14'
 
 export interface DiagnosticRange {
@@ -16,12 +57,45 @@ export interface DiagnosticRange {
   column: number
 }
 
+export type DiagnosticTag = 'unnecessary' | 'deprecated'
+
+/**
+ * A secondary location of a diagnostic, such as the declaration an error refers to
+ */
+export interface RelatedLocation {
+  /**
+   * Workspace-relative path, when the location is in a workspace file
+   */
+  path?: string
+  uri: string
+  start: DiagnosticRange
+  end: DiagnosticRange
+  message: string
+}
+
 export interface Diagnostic {
+  /**
+   * Workspace-relative path of the file the diagnostic belongs to
+   */
+  path?: string
   start?: DiagnosticRange
   end?: DiagnosticRange
   message: string
   severity: 'error' | 'warning' | 'info'
+  /**
+   * The tool that reported the diagnostic, as the server names itself
+   */
   source: string
+  /**
+   * The rule that was violated, e.g. "invalid-assignment" or "reportAttributeAccessIssue"
+   */
+  code?: string
+  /**
+   * URL of the rule's documentation
+   */
+  codeDescription?: string
+  tags?: DiagnosticTag[]
+  related?: RelatedLocation[]
 }
 
 const DEFAULT_CODE = `def greet(name: str) -> str:
@@ -32,54 +106,183 @@ result: int = greet("World")
 print(result)
 `
 
+const DEFAULT_FILES: PlaygroundFile[] = [{ path: 'main.py', content: DEFAULT_CODE }]
+
+interface PendingJump {
+  path: string
+  start: DiagnosticRange
+  end?: DiagnosticRange
+}
+
 function App() {
-  const [code, setCode] = useState(DEFAULT_CODE)
+  const [files, setFiles] = useState<PlaygroundFile[]>(DEFAULT_FILES)
+  const [activePath, setActivePath] = useState(DEFAULT_FILES[0].path)
+  const [openTabs, setOpenTabs] = useState<string[]>([DEFAULT_FILES[0].path])
   const [typeChecker, setTypeChecker] = useState<TypeChecker>('ty')
   const [pythonVersion, setPythonVersion] = useState<PythonVersion>('3.12')
-  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([])
+  const [diagnosticsByPath, setDiagnosticsByPath] = useState<Record<string, Diagnostic[]>>({})
   const [isChecking, setIsChecking] = useState(false)
   const [lspClient, setLspClient] = useState<LSPClient | null>(null)
+  const [checkerBuilds, setCheckerBuilds] = useState<Partial<Record<TypeChecker, string>>>({})
+  const [compareMode, setCompareMode] = useState(false)
+  const [compareBuild, setCompareBuild] = useState<string | null>(null)
+  const [versionMatrix, setVersionMatrix] = useState(false)
+  const [inlayHints, setInlayHints] = useState(true)
+  const [comparisonResults, setComparisonResults] = useState<ComparisonResults>({})
+  const [comparisonErrors, setComparisonErrors] = useState<Partial<Record<string, string>>>({})
+  const [matrixResults, setMatrixResults] = useState<VersionMatrixResults>({})
+  const [matrixErrors, setMatrixErrors] = useState<Partial<Record<PythonVersion, string>>>({})
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [symbols, setSymbols] = useState<OutlineSymbol[]>([])
+  const [symbolQuickOpen, setSymbolQuickOpen] = useState(false)
+  const [serverNotice, setServerNotice] = useState<string | null>(null)
+  const [inspectorOpen, setInspectorOpen] = useState(false)
+  const [examplesOpen, setExamplesOpen] = useState(false)
+  const [diagnosticsFilter, setDiagnosticsFilter] = useState(DEFAULT_DIAGNOSTICS_FILTER)
+  const [installedPackages, setInstalledPackages] = useState<InstalledPackage[]>([])
   const editorRef = useRef<CodeEditorHandle>(null)
+  const comparisonRef = useRef<ComparisonSession | null>(null)
+  const matrixRef = useRef<VersionMatrixSession | null>(null)
+  const filesRef = useRef(files)
+  const pendingJumpRef = useRef<PendingJump | null>(null)
+
+  const activeFile = files.find(file => file.path === activePath) ?? files[0]
+  const code = activeFile.content
+  const checkerConfig = useMemo(() => resolveCheckerConfig(files), [files])
+  const diagnostics = [
+    ...checkerConfig.diagnostics,
+    ...files.flatMap(file => diagnosticsByPath[file.path] ?? [])
+  ]
+
+  const checker = getChecker(typeChecker)
+  const buildId = checkerBuilds[typeChecker] ?? BUNDLED_BUILD
+  const build = useMemo(() => getCheckerBuild(typeChecker, buildId), [typeChecker, buildId])
+  // The build the selected one is compared with, while it is available
+  const comparedBuild = useMemo(() => {
+    const builds = getCheckerBuilds(typeChecker)
+    return builds.find(candidate => candidate.id === compareBuild && candidate.id !== build.id) ?? null
+  }, [typeChecker, compareBuild, build])
+  // Servers are seeded with the installed packages on startup, so a change restarts them
+  const sitePackages = useMemo(() => sitePackageFiles(installedPackages), [installedPackages])
+
+  // Configuration is applied to the servers once editing pauses, as a JSON snapshot
+  // so that effects only re-run when the settings actually change
+  const settingsJson = JSON.stringify({
+    pyright: checkerConfig.pyright,
+    ty: { options: checkerConfig.ty, source: checkerConfig.tySource }
+  } satisfies CheckerSettings)
+  const [appliedSettingsJson, setAppliedSettingsJson] = useState(settingsJson)
+  const appliedSettings = useMemo(() => JSON.parse(appliedSettingsJson) as CheckerSettings, [appliedSettingsJson])
+  const settingsRef = useRef(appliedSettings)
+  const pythonVersionRef = useRef(pythonVersion)
+  // Settings the active checker only reads on startup, so a change restarts it
+  const startupSettings = startupSettingsKey(checker, appliedSettings)
+  // The matrix runs the selected checker, so it is only shown for language servers
+  const matrixShown = versionMatrix && !compareMode && comparedBuild === null && checker.kind === 'lsp'
+  // What comparison mode runs: every checker with its selected build, or two builds
+  // of the selected checker. The two are kept apart so that switching the selected
+  // checker while comparing checkers does not restart every compared server.
+  const checkerComparisonEntries = useMemo(() => {
+    if (!compareMode) return null
+    return checkerComparison(Object.fromEntries(LSP_CHECKERS.map(lspChecker => [
+      lspChecker.id,
+      getCheckerBuild(lspChecker.id, checkerBuilds[lspChecker.id] ?? BUNDLED_BUILD)
+    ])) as Partial<Record<TypeChecker, CheckerBuild>>)
+  }, [compareMode, checkerBuilds])
+  const buildComparisonEntries = useMemo(() => {
+    if (compareMode || !comparedBuild || checker.kind !== 'lsp') return null
+    return buildComparison(checker, [build, comparedBuild])
+  }, [compareMode, comparedBuild, checker, build])
+  const comparisonEntries = checkerComparisonEntries ?? buildComparisonEntries
+  const outlineAvailable = lspClient !== null && fileLanguage(activePath) === 'python'
+
+  const openFile = useCallback((path: string) => {
+    setOpenTabs(prev => prev.includes(path) ? prev : [...prev, path])
+    setActivePath(path)
+  }, [])
+
+  // Keep the latest files, settings and Python version available to effects that
+  // should not re-run on every change
+  useEffect(() => {
+    filesRef.current = files
+  }, [files])
+
+  useEffect(() => {
+    settingsRef.current = appliedSettings
+  }, [appliedSettings])
+
+  useEffect(() => {
+    pythonVersionRef.current = pythonVersion
+  }, [pythonVersion])
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setAppliedSettingsJson(settingsJson), 500)
+    return () => clearTimeout(timeoutId)
+  }, [settingsJson])
+
+  // Restore a shared session from the URL hash on load and whenever the hash changes
+  useEffect(() => {
+    const restoreFromHash = async () => {
+      const state = await decodeStateFromHash(window.location.hash)
+      if (!state) return
+
+      setFiles(state.files)
+      setActivePath(state.activePath)
+      setOpenTabs([state.activePath])
+      if (isTypeChecker(state.typeChecker)) setTypeChecker(state.typeChecker)
+      setPythonVersion(state.pythonVersion)
+      setCheckerBuilds(state.settings.checkerBuilds)
+      setCompareMode(state.settings.compareMode)
+      setCompareBuild(state.settings.compareMode ? null : state.settings.compareBuild)
+      setVersionMatrix(
+        state.settings.versionMatrix && !state.settings.compareMode && state.settings.compareBuild === null
+      )
+      setInlayHints(state.settings.inlayHints)
+    }
+
+    restoreFromHash()
+    window.addEventListener('hashchange', restoreFromHash)
+    return () => window.removeEventListener('hashchange', restoreFromHash)
+  }, [])
 
-  // Initialize LSP client based on selected type checker
+  // Start the language server of the selected checker. Servers that read their
+  // configuration only on startup are restarted when it changes, and every server
+  // is restarted when packages are installed or uninstalled.
   useEffect(() => {
+    if (checker.kind !== 'lsp') {
+      setLspClient(null)
+      return undefined
+    }
+
     let cancelled = false
 
     const initLSP = async () => {
       try {
-        let client: LSPClient | null = null
-
-        const onDiagnostics = (params: any[]) => {
+        const onDiagnostics = (uri: string, params: LSPDiagnostic[]) => {
+          const path = uriToPath(uri)
+          if (path === null) return
           // Convert LSP diagnostics to our Diagnostic format
-          const appDiagnostics: Diagnostic[] = params.map((diag: any) => ({
-            start: {
-              line: diag.range.start.line + 1,
-              column: diag.range.start.character + 1
-            },
-            end: {
-              line: diag.range.end.line + 1,
-              column: diag.range.end.character + 1
-            },
-            message: diag.message,
-            severity: diag.severity === 1 ? 'error' : diag.severity === 2 ? 'warning' : 'info',
-            source: typeChecker
+          setDiagnosticsByPath(prev => ({
+            ...prev,
+            [path]: params.map(diag => toAppDiagnostic(diag, checker.id, path))
           }))
-          setDiagnostics(appDiagnostics)
           setIsChecking(false)
         }
 
-        if (typeChecker === 'ty') {
-          client = await createTyLSPClient({
-            pythonVersion,
-            documentUri: 'file:///main.py',
-            onDiagnostics
-          })
-        } else if (typeChecker === 'basedpyright') {
-          client = await createBasedPyrightLSPClient({
-            pythonVersion,
-            onDiagnostics
-          })
-        }
+        const client = await createCheckerLSPClient(checker, {
+          pythonVersion: pythonVersionRef.current,
+          build,
+          files: filesRef.current,
+          sitePackages,
+          settings: settingsRef.current,
+          onDiagnostics,
+          onCrash: (reason, restarted) => {
+            if (!restarted) setIsChecking(false)
+            setServerNotice(restarted
+              ? `${checker.label} crashed and was restarted: ${reason}`
+              : `${checker.label} crashed and could not be restarted: ${reason}`)
+          }
+        })
 
         if (!cancelled && client) {
           setLspClient(client)
@@ -89,42 +292,88 @@ function App() {
       }
     }
 
-    // Close any existing clients first
-    const cleanup = () => {
+    initLSP()
+
+    return () => {
       cancelled = true
-      closeTyLSPClient()
-      closeBasedPyrightLSPClient()
+      closeCheckerLSPClient()
       setLspClient(null)
+      setServerNotice(null)
     }
+  }, [checker, build, startupSettings, sitePackages])
 
-    if (typeChecker === 'ty' || typeChecker === 'basedpyright') {
-      initLSP()
-      return cleanup
-    } else {
-      // For other type checkers, no LSP client yet
-      setLspClient(null)
-      return undefined
-    }
-  }, [typeChecker, pythonVersion])
+  // Checkers that take configuration at runtime get settings changes without a restart
+  useEffect(() => {
+    if (lspClient) updateCheckerConfiguration(appliedSettings)
+  }, [lspClient, appliedSettings])
+
+  // Python version changes reconfigure the running server instead of restarting it
+  useEffect(() => {
+    if (lspClient) updateCheckerPythonVersion(pythonVersion)
+  }, [lspClient, pythonVersion])
+
+  // Keep every workspace file open on the language server, not just the active one
+  useEffect(() => {
+    const workspace = lspClient?.workspace as PlaygroundWorkspace | undefined
+    workspace?.setFiles(files)
+  }, [lspClient, files])
 
-  // Run type checker whenever code, typeChecker, or pythonVersion changes
+  // Switch tabs when the language server wants to show another file (e.g. go to definition)
+  useEffect(() => {
+    const workspace = lspClient?.workspace as PlaygroundWorkspace | undefined
+    if (!workspace) return undefined
+
+    workspace.setDisplayFileHandler((uri) => {
+      const path = uriToPath(uri)
+      if (path !== null) openFile(path)
+    })
+    return () => workspace.setDisplayFileHandler(null)
+  }, [lspClient, openFile])
+
+  // Keep the file list in sync with edits the language server makes to files
+  // that are not open in the editor, e.g. from a code action
+  useEffect(() => {
+    const workspace = lspClient?.workspace as PlaygroundWorkspace | undefined
+    if (!workspace) return undefined
+
+    workspace.setFileEditHandler((uri, content) => {
+      const path = uriToPath(uri)
+      if (path === null) return
+      setFiles(prev => prev.map(file => file.path === path ? { ...file, content } : file))
+    })
+    return () => workspace.setFileEditHandler(null)
+  }, [lspClient])
+
+  // Run one-shot checkers whenever code, typeChecker, or pythonVersion changes
   useEffect(() => {
     let cancelled = false
 
     const checkCode = async () => {
-      // For LSP-based checkers, diagnostics are handled via events
-      if (typeChecker === 'ty' || typeChecker === 'basedpyright') {
+      // Language servers push their diagnostics themselves
+      if (checker.kind !== 'oneshot') {
         return
       }
 
       setIsChecking(true)
       try {
-        const results = await runTypeChecker(typeChecker, code, pythonVersion)
+        const results = await checker.check(code, pythonVersion)
         if (!cancelled) {
-          setDiagnostics(results)
+          setDiagnosticsByPath({ [activePath]: results.map(diag => ({ ...diag, path: activePath })) })
         }
       } catch (error) {
-        console.error('Error checking code:', error)
+        console.error('Error running type checker:', error)
+        if (!cancelled) {
+          setDiagnosticsByPath({
+            [activePath]: [{
+              path: activePath,
+              start: { line: 1, column: 1 },
+              end: { line: 1, column: 1 },
+              message: `Error running ${checker.label}: ${error}`,
+              severity: 'error',
+              source: checker.id
+            }]
+          })
+        }
       } finally {
         if (!cancelled) {
           setIsChecking(false)
@@ -139,38 +388,402 @@ function App() {
       cancelled = true
       clearTimeout(timeoutId)
     }
-  }, [code, typeChecker, pythonVersion])
+  }, [code, activePath, checker, pythonVersion])
+
+  // Start one headless server per compared checker or build while comparing
+  useEffect(() => {
+    if (!comparisonEntries) {
+      return undefined
+    }
+
+    const session = new ComparisonSession({
+      entries: comparisonEntries,
+      pythonVersion: pythonVersionRef.current,
+      sitePackages,
+      settings: appliedSettings,
+      onDiagnostics: (key, results) => {
+        setComparisonResults(prev => ({ ...prev, [key]: results }))
+      },
+      onError: (key, error) => {
+        setComparisonErrors(prev => ({ ...prev, [key]: error.message }))
+      }
+    })
+    comparisonRef.current = session
+
+    return () => {
+      session.close()
+      comparisonRef.current = null
+      setComparisonResults({})
+      setComparisonErrors({})
+    }
+  }, [comparisonEntries, appliedSettings, sitePackages])
+
+  useEffect(() => {
+    comparisonRef.current?.setPythonVersion(pythonVersion)
+  }, [comparisonEntries, pythonVersion])
+
+  // Feed the workspace to every compared checker, debounced like single-checker mode
+  useEffect(() => {
+    if (!comparisonEntries) {
+      return undefined
+    }
+
+    const timeoutId = setTimeout(() => comparisonRef.current?.update(files), 500)
+    return () => clearTimeout(timeoutId)
+  }, [files, comparisonEntries])
 
-  const handleDiagnosticClick = useCallback((start?: DiagnosticRange, end?: DiagnosticRange) => {
-    if (start) {
+  // Start one headless server per Python version while the version matrix is shown
+  useEffect(() => {
+    if (!matrixShown || checker.kind !== 'lsp') {
+      return undefined
+    }
+
+    const session = new VersionMatrixSession({
+      checker,
+      build,
+      sitePackages,
+      settings: appliedSettings,
+      onDiagnostics: (version, results) => {
+        setMatrixResults(prev => ({ ...prev, [version]: results }))
+      },
+      onError: (version, error) => {
+        setMatrixErrors(prev => ({ ...prev, [version]: error.message }))
+      }
+    })
+    session.update(filesRef.current)
+    matrixRef.current = session
+
+    return () => {
+      session.close()
+      matrixRef.current = null
+      setMatrixResults({})
+      setMatrixErrors({})
+    }
+  }, [matrixShown, checker, build, appliedSettings, sitePackages])
+
+  // Feed the workspace to every version, debounced like single-checker mode
+  useEffect(() => {
+    if (!matrixShown) {
+      return undefined
+    }
+
+    const timeoutId = setTimeout(() => matrixRef.current?.update(files), 500)
+    return () => clearTimeout(timeoutId)
+  }, [files, matrixShown])
+
+  // Refresh the outline of the active file once editing pauses
+  useEffect(() => {
+    let cancelled = false
+
+    const timeoutId = setTimeout(async () => {
+      if (!lspClient || fileLanguage(activePath) !== 'python') {
+        setSymbols([])
+        return
+      }
+
+      try {
+        const result = await requestDocumentSymbols(lspClient, pathToUri(activePath))
+        if (!cancelled) setSymbols(result)
+      } catch (error) {
+        console.error('Failed to load document symbols:', error)
+      }
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeoutId)
+    }
+  }, [lspClient, activePath, code])
+
+  // Ctrl+Shift+O (Cmd+Shift+O on macOS) opens go-to-symbol for the active file
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.shiftKey && event.key.toLowerCase() === 'o') {
+        event.preventDefault()
+        setSymbolQuickOpen(true)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  // Complete a jump into another file once its editor has been created
+  useEffect(() => {
+    const jump = pendingJumpRef.current
+    if (jump && jump.path === activePath) {
+      pendingJumpRef.current = null
+      editorRef.current?.jumpToLocation(jump.start, jump.end)
+    }
+  }, [activePath])
+
+  const handleCodeChange = useCallback((value: string) => {
+    setFiles(prev => prev.map(file => file.path === activePath ? { ...file, content: value } : file))
+  }, [activePath])
+
+  const handleCreateFile = useCallback((path: string) => {
+    const content = isConfigFile(path) ? CONFIG_TEMPLATES[path as ConfigFileName] : ''
+    setFiles(prev => [...prev, { path, content }])
+    openFile(path)
+  }, [openFile])
+
+  const handleRenameFile = useCallback((oldPath: string, newPath: string) => {
+    setFiles(prev => prev.map(file => file.path === oldPath ? { ...file, path: newPath } : file))
+    setOpenTabs(prev => prev.map(path => path === oldPath ? newPath : path))
+    setActivePath(prev => prev === oldPath ? newPath : prev)
+  }, [])
+
+  const handleDeleteFile = useCallback((path: string) => {
+    const remaining = files.filter(file => file.path !== path)
+    const remainingTabs = openTabs.filter(tab => tab !== path)
+    const tabs = remainingTabs.length > 0 ? remainingTabs : [remaining[0].path]
+
+    setFiles(remaining)
+    setOpenTabs(tabs)
+    if (activePath === path) {
+      setActivePath(tabs[0])
+    }
+  }, [files, openTabs, activePath])
+
+  const handleInstallPackage = useCallback((pkg: InstalledPackage) => {
+    // Reinstalling an archive replaces it
+    setInstalledPackages(prev => [...prev.filter(installed => installed.archive !== pkg.archive), pkg])
+  }, [])
+
+  const handleUninstallPackage = useCallback((archive: string) => {
+    setInstalledPackages(prev => prev.filter(installed => installed.archive !== archive))
+  }, [])
+
+  const handleCloseTab = useCallback((path: string) => {
+    const remainingTabs = openTabs.filter(tab => tab !== path)
+    setOpenTabs(remainingTabs)
+    if (activePath === path) {
+      setActivePath(remainingTabs[remainingTabs.length - 1])
+    }
+  }, [openTabs, activePath])
+
+  const handleCopyLink = useCallback(async () => {
+    try {
+      const url = await createPermalink({
+        files,
+        activePath,
+        typeChecker,
+        pythonVersion,
+        settings: { compareMode, inlayHints, checkerBuilds, compareBuild, versionMatrix }
+      })
+      // Update the address bar without triggering a hashchange restore
+      window.history.replaceState(null, '', url)
+      await navigator.clipboard.writeText(url)
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy link:', error)
+    }
+  }, [files, activePath, typeChecker, pythonVersion, compareMode, inlayHints, checkerBuilds, compareBuild, versionMatrix])
+
+  const handleDiagnosticClick = useCallback((start?: DiagnosticRange, end?: DiagnosticRange, path?: string) => {
+    if (!start) return
+
+    if (path && path !== activePath) {
+      // The editor for the target file does not exist yet, jump once it is created
+      pendingJumpRef.current = { path, start, end }
+      openFile(path)
+    } else {
       editorRef.current?.jumpToLocation(start, end)
     }
+  }, [activePath, openFile])
+
+  // Comparisons and the version matrix share the diagnostics section, so turning one
+  // on turns the others off
+  const handleCompareModeChange = useCallback((enabled: boolean) => {
+    setCompareMode(enabled)
+    if (enabled) {
+      setVersionMatrix(false)
+      setCompareBuild(null)
+    }
+  }, [])
+
+  const handleCompareBuildChange = useCallback((buildToCompare: string | null) => {
+    setCompareBuild(buildToCompare)
+    if (buildToCompare !== null) {
+      setCompareMode(false)
+      setVersionMatrix(false)
+    }
+  }, [])
+
+  const handleVersionMatrixChange = useCallback((enabled: boolean) => {
+    setVersionMatrix(enabled)
+    if (enabled) {
+      setCompareMode(false)
+      setCompareBuild(null)
+    }
+  }, [])
+
+  const handleCheckerBuildChange = useCallback((selected: string) => {
+    setCheckerBuilds(prev => ({ ...prev, [typeChecker]: selected }))
+  }, [typeChecker])
+
+  // Replace the workspace with an example, moving to the oldest Python version it
+  // runs on if an older one is selected
+  const handleLoadExample = useCallback((example: Example) => {
+    const edited = files.length > 1 ||
+      (files[0].content !== DEFAULT_CODE && !EXAMPLES.some(other => other.code === files[0].content))
+    if (edited && !window.confirm(`Replace the workspace with the "${example.title}" example?`)) return
+
+    const path = 'main.py'
+    setExamplesOpen(false)
+    setFiles([{ path, content: example.code }])
+    setActivePath(path)
+    setOpenTabs([path])
+    setPythonVersion(current =>
+      PYTHON_VERSIONS.indexOf(current) < PYTHON_VERSIONS.indexOf(example.minPythonVersion)
+        ? example.minPythonVersion
+        : current
+    )
+  }, [files])
+
+  const handleSymbolClick = useCallback((start: DiagnosticRange, end: DiagnosticRange) => {
+    editorRef.current?.jumpToLocation(start, end)
   }, [])
 
   return (
     <div className="app">
       <header className="app-header">
         <h1>Omni-Python Playground</h1>
+        <div className="header-actions">
+          <button
+            className="header-button secondary"
+            onClick={() => setExamplesOpen(true)}
+            title="Start from an example of a typing feature"
+          >
+            Examples
+          </button>
+          <button
+            className={inspectorOpen ? 'header-button secondary active' : 'header-button secondary'}
+            onClick={() => setInspectorOpen(open => !open)}
+            title="Show the JSON-RPC messages exchanged with the language servers"
+          >
+            LSP traffic
+          </button>
+          <button className="header-button" onClick={handleCopyLink}>
+            {linkCopied ? 'Link copied!' : 'Copy link'}
+          </button>
+        </div>
       </header>
       <div className="main-content">
         <div className="editor-section">
           <Controls
             typeChecker={typeChecker}
+            checkerBuild={build.id}
             pythonVersion={pythonVersion}
+            compareMode={compareMode}
+            compareBuild={comparedBuild?.id ?? null}
             onTypeCheckerChange={setTypeChecker}
+            onCheckerBuildChange={handleCheckerBuildChange}
             onPythonVersionChange={setPythonVersion}
+            onCompareModeChange={handleCompareModeChange}
+            onCompareBuildChange={handleCompareBuildChange}
+            versionMatrix={matrixShown}
+            onVersionMatrixChange={handleVersionMatrixChange}
+            inlayHints={inlayHints}
+            onInlayHintsChange={setInlayHints}
           />
-          <CodeEditor ref={editorRef} code={code} onChange={setCode} lspClient={lspClient} />
+          <div className="workspace-area">
+            <div className="workspace-sidebar">
+              <FileExplorer
+                files={files}
+                activePath={activePath}
+                onOpen={openFile}
+                onCreate={handleCreateFile}
+                onRename={handleRenameFile}
+                onDelete={handleDeleteFile}
+              />
+              <SitePackagesPanel
+                packages={installedPackages}
+                onInstall={handleInstallPackage}
+                onUninstall={handleUninstallPackage}
+              />
+            </div>
+            <div className="editor-pane">
+              <EditorTabs
+                tabs={openTabs}
+                activePath={activePath}
+                onSelect={setActivePath}
+                onClose={handleCloseTab}
+              />
+              {serverNotice && (
+                <div className="server-notice" role="status">
+                  <span className="server-notice-message" title={serverNotice}>{serverNotice}</span>
+                  <button className="server-notice-dismiss" onClick={() => setServerNotice(null)}>
+                    Dismiss
+                  </button>
+                </div>
+              )}
+              <CodeEditor
+                key={activePath}
+                ref={editorRef}
+                code={code}
+                documentUri={pathToUri(activePath)}
+                onChange={handleCodeChange}
+                lspClient={lspClient}
+                language={fileLanguage(activePath)}
+                diagnostics={checkerConfig.diagnostics.filter(diag => diag.path === activePath)}
+                showInlayHints={inlayHints}
+              />
+            </div>
+          </div>
         </div>
         <div className="diagnostics-section">
-          <DiagnosticsPanel
-            diagnostics={diagnostics}
-            typeChecker={typeChecker}
-            isChecking={isChecking}
-            onDiagnosticClick={handleDiagnosticClick}
+          {comparisonEntries ? (
+            <ComparisonView
+              entries={comparisonEntries}
+              results={comparisonResults}
+              errors={comparisonErrors}
+              onDiagnosticClick={handleDiagnosticClick}
+            />
+          ) : matrixShown ? (
+            <VersionMatrixView
+              typeChecker={typeChecker}
+              versions={PYTHON_VERSIONS}
+              results={matrixResults}
+              errors={matrixErrors}
+              onDiagnosticClick={handleDiagnosticClick}
+            />
+          ) : (
+            <DiagnosticsPanel
+              diagnostics={diagnostics}
+              typeChecker={typeChecker}
+              checkerVersion={build.version}
+              isChecking={isChecking}
+              filter={diagnosticsFilter}
+              onFilterChange={setDiagnosticsFilter}
+              onDiagnosticClick={handleDiagnosticClick}
+            />
+          )}
+          <OutlinePanel
+            symbols={symbols}
+            available={outlineAvailable}
+            onSymbolClick={handleSymbolClick}
           />
         </div>
+        {inspectorOpen && <LSPInspector onClose={() => setInspectorOpen(false)} />}
       </div>
+      {examplesOpen && (
+        <ExamplesGallery
+          onSelect={handleLoadExample}
+          onClose={() => setExamplesOpen(false)}
+        />
+      )}
+      {symbolQuickOpen && (
+        <SymbolQuickOpen
+          symbols={outlineAvailable ? flattenSymbols(symbols) : []}
+          onSelect={symbol => {
+            setSymbolQuickOpen(false)
+            handleSymbolClick(symbol.selectionStart, symbol.selectionEnd)
+          }}
+          onClose={() => setSymbolQuickOpen(false)}
+        />
+      )}
     </div>
   )
 }
@@ -1,21 +1,43 @@
 import CodeMirror from '@uiw/react-codemirror'
 import { python } from '@codemirror/lang-python'
+import { json } from '@codemirror/lang-json'
+import { StreamLanguage } from '@codemirror/language'
+import { toml } from '@codemirror/legacy-modes/mode/toml'
 import { EditorView, Decoration } from '@codemirror/view'
 import { StateField, StateEffect } from '@codemirror/state'
-import { useRef, useImperativeHandle, forwardRef, useMemo, useState, useCallback } from 'react'
+import { useRef, useImperativeHandle, forwardRef, useMemo, useState, useCallback, useEffect } from 'react'
 import {
   type LSPClient,
   jumpToDefinition,
   jumpToTypeDefinition,
   findReferences
 } from '@codemirror/lsp-client'
-import { lintGutter, linter } from '@codemirror/lint'
+import { lintGutter, linter, setDiagnostics, type Diagnostic as LintDiagnostic } from '@codemirror/lint'
+import type { Diagnostic } from '../App'
+import type { FileLanguage } from '../services/workspaceFiles'
+import { inlayHints } from '../services/lsp/inlayHints'
+import { codeActions, showCodeActions } from '../services/lsp/codeActions'
+import { renameSymbol, renameWithPreview } from '../services/lsp/rename'
+import { semanticTokens } from '../services/lsp/semanticTokens'
 import './CodeEditor.css'
 
 interface CodeEditorProps {
   code: string
+  documentUri: string
   onChange: (value: string) => void
   lspClient?: LSPClient | null
+  /**
+   * Language of the document. Only Python documents are connected to the language server.
+   */
+  language?: FileLanguage
+  /**
+   * Diagnostics to show for documents that are not checked by a language server
+   */
+  diagnostics?: Diagnostic[]
+  /**
+   * Show the language server's inlay hints (inferred types, parameter names)
+   */
+  showInlayHints?: boolean
 }
 
 export interface DiagnosticRange {
@@ -60,7 +82,30 @@ interface ContextMenuState {
   y: number
 }
 
-const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({ code, onChange, lspClient }, ref) => {
+const LANGUAGE_EXTENSIONS = {
+  python: () => python(),
+  json: () => json(),
+  toml: () => StreamLanguage.define(toml)
+}
+
+/**
+ * Convert 1-based app diagnostics to CodeMirror lint diagnostics
+ */
+function toLintDiagnostics(view: EditorView, diagnostics: Diagnostic[]): LintDiagnostic[] {
+  const { doc } = view.state
+  const offset = (position: DiagnosticRange) => {
+    const line = doc.line(Math.min(Math.max(position.line, 1), doc.lines))
+    return Math.min(line.from + position.column - 1, line.to)
+  }
+
+  return diagnostics.map(diag => {
+    const from = diag.start ? offset(diag.start) : 0
+    const to = diag.end ? Math.max(offset(diag.end), from) : from
+    return { from, to, severity: diag.severity, message: diag.message, source: diag.source }
+  })
+}
+
+const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({ code, documentUri, onChange, lspClient, language = 'python', diagnostics, showInlayHints = false }, ref) => {
   const editorRef = useRef<EditorView | null>(null)
   const containerRef = useRef<HTMLDivElement | null>(null)
   const [contextMenu, setContextMenu] = useState<ContextMenuState>({ visible: false, x: 0, y: 0 })
@@ -72,7 +117,7 @@ const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({ code, onChan
 
   // Handle context menu
   const handleContextMenu = useCallback((e: React.MouseEvent) => {
-    if (!lspClient) return // Only show LSP menu when LSP is available
+    if (!lspClient || language !== 'python') return // Only show LSP menu when LSP is available
 
     e.preventDefault()
     const container = containerRef.current
@@ -94,7 +139,7 @@ const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({ code, onChan
       x: e.clientX - rect.left,
       y: e.clientY - rect.top
     })
-  }, [lspClient])
+  }, [lspClient, language])
 
   // Execute an LSP command
   const executeCommand = useCallback((command: (view: EditorView) => boolean) => {
@@ -112,17 +157,28 @@ const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({ code, onChan
   const extensions = useMemo(() => {
     // We provide a never-resolving promise as source to install the lint UI
     // but prevent the polling linter from clearing diagnostics pushed by LSP.
-    const exts = [python(), highlightField, lintGutter(), linter(() => new Promise(() => { }))]
+    const exts = [LANGUAGE_EXTENSIONS[language](), highlightField, lintGutter(), linter(() => new Promise(() => { }))]
 
-    if (lspClient) {
-      // Create plugin for the main.py document
+    if (lspClient && language === 'python') {
+      // Create plugin for the active document
       // plugin() returns an Extension which can be an array
-      const lspExtensions = lspClient.plugin('file:///workspace/main.py', 'python') as any
-      exts.push(...lspExtensions)
+      const lspExtensions = lspClient.plugin(documentUri, 'python') as any
+      exts.push(...lspExtensions, semanticTokens(), codeActions(), renameWithPreview())
+
+      if (showInlayHints) {
+        exts.push(inlayHints())
+      }
     }
 
     return exts
-  }, [lspClient])
+  }, [lspClient, documentUri, language, showInlayHints])
+
+  // Show diagnostics for documents the language server does not check
+  useEffect(() => {
+    const view = editorRef.current
+    if (!view || language === 'python') return
+    view.dispatch(setDiagnostics(view.state, toLintDiagnostics(view, diagnostics ?? [])))
+  }, [diagnostics, language, code])
 
   useImperativeHandle(ref, () => ({
     jumpToLocation: (start: DiagnosticRange, end?: DiagnosticRange) => {
@@ -207,7 +263,7 @@ const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({ code, onChan
           lintKeymap: true,
         }}
       />
-      {contextMenu.visible && lspClient && (
+      {contextMenu.visible && lspClient && language === 'python' && (
         <div
           className="context-menu"
           style={{ left: contextMenu.x, top: contextMenu.y }}
@@ -221,6 +277,13 @@ const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({ code, onChan
           <button onClick={() => executeCommand(findReferences)}>
             Find References
           </button>
+          <div className="context-menu-divider" />
+          <button onClick={() => executeCommand(renameSymbol)}>
+            Rename Symbol
+          </button>
+          <button onClick={() => executeCommand(showCodeActions)}>
+            Quick Fix…
+          </button>
         </div>
       )}
     </div>
@@ -0,0 +1,97 @@
+import type { DiagnosticRange } from '../App'
+import { matchDiagnostics, type ComparisonEntry, type ComparisonResults } from '../services/comparisonService'
+import './ComparisonView.css'
+
+interface ComparisonViewProps {
+  entries: ComparisonEntry[]
+  results: ComparisonResults
+  errors: Partial<Record<string, string>>
+  onDiagnosticClick?: (start?: DiagnosticRange, end?: DiagnosticRange, path?: string) => void
+}
+
+const STATUS_LABELS = {
+  agree: 'All agree',
+  line: 'Same line, different range',
+  disagree: 'Disagreement',
+}
+
+function ComparisonView({ entries, results, errors, onDiagnosticClick }: ComparisonViewProps) {
+  const keys = entries.map((entry) => entry.key)
+  const rows = matchDiagnostics(results, keys)
+  const disagreements = rows.filter((row) => row.status !== 'agree').length
+
+  return (
+    <div className="comparison-view">
+      <div className="comparison-header">
+        <h2>Comparison</h2>
+        <span className="comparison-summary">
+          {`${rows.length - disagreements} agreement${rows.length - disagreements !== 1 ? 's' : ''}, `}
+          {`${disagreements} disagreement${disagreements !== 1 ? 's' : ''}`}
+        </span>
+      </div>
+      <div className="comparison-table-wrapper">
+        <table className="comparison-table">
+          <thead>
+            <tr>
+              <th className="comparison-location-column">Location</th>
+              {entries.map((entry) => (
+                <th key={entry.key}>
+                  {entry.label}
+                  <span className="comparison-column-status">
+                    {errors[entry.key]
+                      ? 'failed'
+                      : results[entry.key] === undefined
+                        ? 'checking...'
+                        : `${results[entry.key]!.length} issue${results[entry.key]!.length !== 1 ? 's' : ''}`}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {keys.some((key) => errors[key]) && (
+              <tr className="comparison-row comparison-errors">
+                <td>Errors</td>
+                {keys.map((key) => (
+                  <td key={key}>{errors[key]}</td>
+                ))}
+              </tr>
+            )}
+            {rows.length === 0 ? (
+              <tr>
+                <td className="no-diagnostics" colSpan={keys.length + 1}>
+                  No diagnostics from any checker
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => (
+                <tr
+                  key={row.key}
+                  className={`comparison-row comparison-${row.status}`}
+                  title={STATUS_LABELS[row.status]}
+                  onClick={() => row.start && onDiagnosticClick?.(row.start, row.end, row.path)}
+                >
+                  <td className="comparison-location">
+                    {row.path && <div className="comparison-path">{row.path}</div>}
+                    {row.start ? `${row.start.line}:${row.start.column}` : '?'}
+                  </td>
+                  {keys.map((key) => (
+                    <td key={key}>
+                      {row.byEntry[key]?.map((diag, index) => (
+                        <div key={index} className={`comparison-cell diagnostic-${diag.severity}`}>
+                          {diag.message}
+                        </div>
+                      )) ?? <span className="comparison-missing">—</span>}
+                    </td>
+                  ))}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+export default ComparisonView
@@ -1,28 +1,52 @@
 import type { TypeChecker, PythonVersion } from '../App'
+import { PYTHON_VERSIONS } from '../constants'
+import { CHECKERS, getChecker, getCheckerBuilds } from '../services/checkers'
 import './Controls.css'
 
 interface ControlsProps {
   typeChecker: TypeChecker
+  /**
+   * The selected build of the checker
+   */
+  checkerBuild: string
   pythonVersion: PythonVersion
+  compareMode: boolean
+  /**
+   * The build the selected one is compared with, or null when not comparing builds
+   */
+  compareBuild: string | null
+  versionMatrix: boolean
+  inlayHints: boolean
   onTypeCheckerChange: (checker: TypeChecker) => void
+  onCheckerBuildChange: (build: string) => void
   onPythonVersionChange: (version: PythonVersion) => void
+  onCompareModeChange: (enabled: boolean) => void
+  onCompareBuildChange: (build: string | null) => void
+  onVersionMatrixChange: (enabled: boolean) => void
+  onInlayHintsChange: (enabled: boolean) => void
 }
 
-const TYPE_CHECKERS: { value: TypeChecker; label: string }[] = [
-  { value: 'pyright', label: 'Pyright' },
-  { value: 'basedpyright', label: 'BasedPyright' },
-  { value: 'ty', label: 'ty' },
-  { value: 'pyrefly', label: 'Pyrefly' },
-]
-
-const PYTHON_VERSIONS: PythonVersion[] = ['3.9', '3.10', '3.11', '3.12', '3.13', '3.14']
-
 function Controls({
   typeChecker,
+  checkerBuild,
   pythonVersion,
+  compareMode,
+  compareBuild,
+  versionMatrix,
+  inlayHints,
   onTypeCheckerChange,
+  onCheckerBuildChange,
   onPythonVersionChange,
+  onCompareModeChange,
+  onCompareBuildChange,
+  onVersionMatrixChange,
+  onInlayHintsChange,
 }: ControlsProps) {
+  const typeshedCommit = getChecker(typeChecker).typeshedCommit
+  const isLanguageServer = getChecker(typeChecker).kind === 'lsp'
+  const builds = getCheckerBuilds(typeChecker)
+  const otherBuilds = builds.filter((build) => build.id !== checkerBuild)
+
   return (
     <div className="controls">
       <div className="control-group">
@@ -32,9 +56,36 @@ function Controls({
           value={typeChecker}
           onChange={(e) => onTypeCheckerChange(e.target.value as TypeChecker)}
         >
-          {TYPE_CHECKERS.map((tc) => (
-            <option key={tc.value} value={tc.value}>
-              {tc.label}
+          {CHECKERS.map((checker) => (
+            <option key={checker.id} value={checker.id}>
+              {checker.label}
+            </option>
+          ))}
+        </select>
+        {typeshedCommit && (
+          <a
+            className="typeshed-revision"
+            href={`https://github.com/python/typeshed/tree/${typeshedCommit}`}
+            target="_blank"
+            rel="noreferrer"
+            title={`Standard library stubs from typeshed commit ${typeshedCommit}`}
+          >
+            typeshed {typeshedCommit.slice(0, 7)}
+          </a>
+        )}
+      </div>
+      <div className="control-group">
+        <label htmlFor="checker-version-select">Version:</label>
+        <select
+          id="checker-version-select"
+          value={checkerBuild}
+          onChange={(e) => onCheckerBuildChange(e.target.value)}
+          disabled={builds.length < 2}
+          title={builds.length < 2 ? 'Run `yarn build:checker-versions` to build other versions' : undefined}
+        >
+          {builds.map((build) => (
+            <option key={build.id} value={build.id}>
+              {build.label}
             </option>
           ))}
         </select>
@@ -53,6 +104,59 @@ function Controls({
           ))}
         </select>
       </div>
+      <div className="control-group">
+        <input
+          id="compare-mode-toggle"
+          type="checkbox"
+          checked={compareMode}
+          onChange={(e) => onCompareModeChange(e.target.checked)}
+        />
+        <label htmlFor="compare-mode-toggle">Compare all checkers</label>
+      </div>
+      {isLanguageServer && otherBuilds.length > 0 && (
+        <div className="control-group">
+          <input
+            id="compare-build-toggle"
+            type="checkbox"
+            checked={compareBuild !== null}
+            onChange={(e) => onCompareBuildChange(e.target.checked ? otherBuilds[0].id : null)}
+          />
+          <label htmlFor="compare-build-toggle">Compare with</label>
+          <select
+            value={compareBuild ?? otherBuilds[0].id}
+            onChange={(e) => onCompareBuildChange(e.target.value)}
+            title="The version to compare the selected one with"
+          >
+            {otherBuilds.map((build) => (
+              <option key={build.id} value={build.id}>
+                {build.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div
+        className="control-group"
+        title={isLanguageServer ? undefined : 'Only available for language server checkers'}
+      >
+        <input
+          id="version-matrix-toggle"
+          type="checkbox"
+          checked={versionMatrix}
+          disabled={!isLanguageServer}
+          onChange={(e) => onVersionMatrixChange(e.target.checked)}
+        />
+        <label htmlFor="version-matrix-toggle">Python version matrix</label>
+      </div>
+      <div className="control-group">
+        <input
+          id="inlay-hints-toggle"
+          type="checkbox"
+          checked={inlayHints}
+          onChange={(e) => onInlayHintsChange(e.target.checked)}
+        />
+        <label htmlFor="inlay-hints-toggle">Inlay hints</label>
+      </div>
     </div>
   )
 }
@@ -1,55 +1,218 @@
-import type { Diagnostic, DiagnosticRange, TypeChecker } from '../App'
+import { useMemo } from 'react'
+import type { Diagnostic, DiagnosticRange, RelatedLocation, TypeChecker } from '../App'
+import { getChecker } from '../services/checkers'
+import {
+  countBySeverity,
+  filterDiagnostics,
+  groupDiagnostics,
+  SEVERITIES,
+  type DiagnosticsFilter,
+  type DiagnosticsGrouping,
+  type DiagnosticsSort,
+  type Severity
+} from '../services/diagnosticsFilter'
 import './DiagnosticsPanel.css'
 
 interface DiagnosticsPanelProps {
   diagnostics: Diagnostic[]
   typeChecker: TypeChecker
+  /**
+   * Version of the running checker build, when it is known
+   */
+  checkerVersion?: string | null
   isChecking?: boolean
-  onDiagnosticClick?: (start?: DiagnosticRange, end?: DiagnosticRange) => void
+  /**
+   * Which diagnostics to show and how, kept by the app so it outlives the panel
+   */
+  filter: DiagnosticsFilter
+  onFilterChange: (filter: DiagnosticsFilter) => void
+  onDiagnosticClick?: (start?: DiagnosticRange, end?: DiagnosticRange, path?: string) => void
 }
 
-function DiagnosticsPanel({ diagnostics, typeChecker, isChecking = false, onDiagnosticClick }: DiagnosticsPanelProps) {
+const SEVERITY_LABELS: Record<Severity, string> = {
+  error: 'Errors',
+  warning: 'Warnings',
+  info: 'Info'
+}
+
+/**
+ * A secondary location of a diagnostic. Locations in workspace files jump to the
+ * location; others (e.g. typeshed stubs) are shown by file name only.
+ */
+function RelatedLocationItem({ related, onClick }: {
+  related: RelatedLocation
+  onClick?: DiagnosticsPanelProps['onDiagnosticClick']
+}) {
+  const clickable = related.path !== undefined && onClick !== undefined
+  const location = `${related.path ?? related.uri.split('/').pop()}:${related.start.line}:${related.start.column}`
+  return (
+    <li
+      className={clickable ? 'diagnostic-related-item clickable' : 'diagnostic-related-item'}
+      title={related.path === undefined ? related.uri : undefined}
+      onClick={event => {
+        event.stopPropagation()
+        if (clickable) onClick(related.start, related.end, related.path)
+      }}
+    >
+      <span className="diagnostic-related-location">{location}</span>
+      {related.message}
+    </li>
+  )
+}
+
+function DiagnosticItem({ diag, onClick }: {
+  diag: Diagnostic
+  onClick?: DiagnosticsPanelProps['onDiagnosticClick']
+}) {
+  const hasLocation = diag.start !== undefined
+  const start = diag.start
+  const end = diag.end
+  return (
+    <div
+      className={`diagnostic diagnostic-${diag.severity}`}
+      onClick={() => hasLocation && onClick?.(start, end, diag.path)}
+      style={{ cursor: hasLocation && onClick ? 'pointer' : 'default' }}
+    >
+      <div className="diagnostic-location">
+        {diag.path && <span className="diagnostic-path">{diag.path}</span>}
+        {hasLocation && start ? (
+          `Line ${start.line}, Column ${start.column}`
+        ) : (
+          'Unknown location'
+        )}
+      </div>
+      <div className="diagnostic-message">{diag.message}</div>
+      {diag.related && diag.related.length > 0 && (
+        <ul className="diagnostic-related">
+          {diag.related.map((related, relatedIndex) => (
+            <RelatedLocationItem
+              key={relatedIndex}
+              related={related}
+              onClick={onClick}
+            />
+          ))}
+        </ul>
+      )}
+      <div className="diagnostic-source">
+        {diag.source}
+        {diag.code && (
+          diag.codeDescription ? (
+            <a
+              className="diagnostic-code"
+              href={diag.codeDescription}
+              target="_blank"
+              rel="noreferrer"
+              title="Open the rule's documentation"
+              onClick={event => event.stopPropagation()}
+            >
+              {diag.code}
+            </a>
+          ) : (
+            <span className="diagnostic-code">{diag.code}</span>
+          )
+        )}
+        {diag.tags?.map(tag => (
+          <span key={tag} className={`diagnostic-tag diagnostic-tag-${tag}`}>{tag}</span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function DiagnosticsPanel({
+  diagnostics,
+  typeChecker,
+  checkerVersion,
+  isChecking = false,
+  filter,
+  onFilterChange,
+  onDiagnosticClick
+}: DiagnosticsPanelProps) {
+  const counts = useMemo(() => countBySeverity(diagnostics), [diagnostics])
+  const visible = useMemo(() => filterDiagnostics(diagnostics, filter), [diagnostics, filter])
+  const groups = useMemo(() => groupDiagnostics(visible, filter.groupBy), [visible, filter.groupBy])
+
+  const toggleSeverity = (severity: Severity) => {
+    onFilterChange({ ...filter, severities: { ...filter.severities, [severity]: !filter.severities[severity] } })
+  }
+
   return (
     <div className="diagnostics-panel">
       <div className="diagnostics-header">
-        <h2>Diagnostics ({typeChecker})</h2>
+        <h2>
+          Diagnostics ({getChecker(typeChecker).label}
+          {checkerVersion && <span className="diagnostics-checker-version"> {checkerVersion}</span>})
+        </h2>
         <span className="diagnostics-count">
           {isChecking ? (
             <span className="checking-indicator">Checking...</span>
-          ) : (
+          ) : visible.length === diagnostics.length ? (
             `${diagnostics.length} issue${diagnostics.length !== 1 ? 's' : ''}`
+          ) : (
+            `${visible.length} of ${diagnostics.length} issues`
           )}
         </span>
       </div>
+      <div className="diagnostics-toolbar">
+        {SEVERITIES.map(severity => (
+          <button
+            key={severity}
+            className={`severity-chip severity-chip-${severity}${filter.severities[severity] ? ' active' : ''}`}
+            onClick={() => toggleSeverity(severity)}
+            aria-pressed={filter.severities[severity]}
+            title={`${filter.severities[severity] ? 'Hide' : 'Show'} ${SEVERITY_LABELS[severity].toLowerCase()}`}
+          >
+            {SEVERITY_LABELS[severity]} <span className="severity-chip-count">{counts[severity]}</span>
+          </button>
+        ))}
+        <input
+          className="diagnostics-search"
+          type="search"
+          placeholder="Search messages"
+          value={filter.search}
+          onChange={event => onFilterChange({ ...filter, search: event.target.value })}
+        />
+        <select
+          className="diagnostics-select"
+          value={filter.groupBy}
+          onChange={event => onFilterChange({ ...filter, groupBy: event.target.value as DiagnosticsGrouping })}
+          title="Group diagnostics"
+        >
+          <option value="none">No grouping</option>
+          <option value="rule">Group by rule</option>
+          <option value="line">Group by line</option>
+        </select>
+        <select
+          className="diagnostics-select"
+          value={filter.sort}
+          onChange={event => onFilterChange({ ...filter, sort: event.target.value as DiagnosticsSort })}
+          title="Sort diagnostics"
+        >
+          <option value="position">Sort by position</option>
+          <option value="server">Checker order</option>
+        </select>
+      </div>
       <div className="diagnostics-list">
         {isChecking ? (
-          <div className="checking-message">Running type checker...</div>
+          <div className="checking-message">Running {getChecker(typeChecker).label}...</div>
         ) : diagnostics.length === 0 ? (
           <div className="no-diagnostics">No type errors found!</div>
+        ) : visible.length === 0 ? (
+          <div className="no-diagnostics">No diagnostics match the filter</div>
         ) : (
-          diagnostics.map((diag, index) => {
-            const hasLocation = diag.start !== undefined
-            const start = diag.start
-            const end = diag.end
-            return (
-              <div
-                key={index}
-                className={`diagnostic diagnostic-${diag.severity}`}
-                onClick={() => hasLocation && onDiagnosticClick?.(start, end)}
-                style={{ cursor: hasLocation && onDiagnosticClick ? 'pointer' : 'default' }}
-              >
-                <div className="diagnostic-location">
-                  {hasLocation && start ? (
-                    `Line ${start.line}, Column ${start.column}`
-                  ) : (
-                    'Unknown location'
-                  )}
+          groups.map(group => (
+            <div key={group.key} className="diagnostics-group">
+              {filter.groupBy !== 'none' && (
+                <div className="diagnostics-group-header">
+                  <span className="diagnostics-group-label">{group.label}</span>
+                  <span className="diagnostics-group-count">{group.diagnostics.length}</span>
                 </div>
-                <div className="diagnostic-message">{diag.message}</div>
-                <div className="diagnostic-source">{diag.source}</div>
-              </div>
-            )
-          })
+              )}
+              {group.diagnostics.map((diag, index) => (
+                <DiagnosticItem key={index} diag={diag} onClick={onDiagnosticClick} />
+              ))}
+            </div>
+          ))
         )}
       </div>
     </div>
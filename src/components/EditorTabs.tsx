@@ -0,0 +1,39 @@
+import './EditorTabs.css'
+
+interface EditorTabsProps {
+  tabs: string[]
+  activePath: string
+  onSelect: (path: string) => void
+  onClose: (path: string) => void
+}
+
+function EditorTabs({ tabs, activePath, onSelect, onClose }: EditorTabsProps) {
+  return (
+    <div className="editor-tabs">
+      {tabs.map((path) => (
+        <div
+          key={path}
+          className={`editor-tab${path === activePath ? ' active' : ''}`}
+          title={path}
+          onClick={() => onSelect(path)}
+        >
+          <span>{path.split('/').pop()}</span>
+          {tabs.length > 1 && (
+            <button
+              className="editor-tab-close"
+              title="Close"
+              onClick={(e) => {
+                e.stopPropagation()
+                onClose(path)
+              }}
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default EditorTabs
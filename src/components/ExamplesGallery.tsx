@@ -0,0 +1,67 @@
+import { useState } from 'react'
+import { EXAMPLE_CATEGORIES, EXAMPLES, type Example, type ExampleCategory } from '../services/examples'
+import './ExamplesGallery.css'
+
+interface ExamplesGalleryProps {
+  onSelect: (example: Example) => void
+  onClose: () => void
+}
+
+function ExamplesGallery({ onSelect, onClose }: ExamplesGalleryProps) {
+  const [category, setCategory] = useState<ExampleCategory>(EXAMPLE_CATEGORIES[0].id)
+  const examples = EXAMPLES.filter(example => example.category === category)
+
+  return (
+    <div
+      className="examples-backdrop"
+      onMouseDown={onClose}
+      onKeyDown={event => {
+        if (event.key === 'Escape') onClose()
+      }}
+    >
+      <div className="examples-gallery" role="dialog" aria-label="Examples" onMouseDown={event => event.stopPropagation()}>
+        <div className="examples-header">
+          <h2>Examples</h2>
+          <button className="examples-close" onClick={onClose} title="Close" autoFocus>×</button>
+        </div>
+        <div className="examples-body">
+          <ul className="examples-categories">
+            {EXAMPLE_CATEGORIES.map(item => (
+              <li key={item.id}>
+                <button
+                  className={item.id === category ? 'examples-category active' : 'examples-category'}
+                  onClick={() => setCategory(item.id)}
+                >
+                  {item.label}
+                  <span className="examples-category-count">
+                    {EXAMPLES.filter(example => example.category === item.id).length}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <ul className="examples-list">
+            {examples.map(example => (
+              <li key={example.id}>
+                <button className="example-card" onClick={() => onSelect(example)}>
+                  <span className="example-title">
+                    {example.title}
+                    <span className="example-version" title={`Needs Python ${example.minPythonVersion} or newer`}>
+                      {example.minPythonVersion}+
+                    </span>
+                  </span>
+                  <span className="example-description">{example.description}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className="examples-footer">
+          Loading an example replaces the workspace with its main.py.
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ExamplesGallery
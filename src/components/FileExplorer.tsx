@@ -0,0 +1,129 @@
+import { isPythonFile, sortFiles, validateFilePath, type PlaygroundFile } from '../services/workspaceFiles'
+import './FileExplorer.css'
+
+interface FileExplorerProps {
+  files: PlaygroundFile[]
+  activePath: string
+  onOpen: (path: string) => void
+  onCreate: (path: string) => void
+  onRename: (oldPath: string, newPath: string) => void
+  onDelete: (path: string) => void
+}
+
+type TreeEntry =
+  | { kind: 'directory'; path: string; name: string; depth: number }
+  | { kind: 'file'; path: string; name: string; depth: number }
+
+/**
+ * Flatten the file list into directory and file rows in tree order
+ */
+function buildTree(files: PlaygroundFile[]): TreeEntry[] {
+  const entries: TreeEntry[] = []
+  const seenDirectories = new Set<string>()
+
+  for (const file of sortFiles(files)) {
+    const segments = file.path.split('/')
+    for (let depth = 0; depth < segments.length - 1; depth++) {
+      const directory = segments.slice(0, depth + 1).join('/')
+      if (!seenDirectories.has(directory)) {
+        seenDirectories.add(directory)
+        entries.push({ kind: 'directory', path: directory, name: segments[depth], depth })
+      }
+    }
+    entries.push({ kind: 'file', path: file.path, name: segments[segments.length - 1], depth: segments.length - 1 })
+  }
+
+  return entries
+}
+
+/**
+ * Ask for a file path until it is valid or the user cancels
+ */
+function promptForPath(message: string, initial: string, existingPaths: string[]): string | null {
+  let value = initial
+  for (;;) {
+    const input = window.prompt(message, value)
+    if (input === null) return null
+    value = input.trim()
+    const error = validateFilePath(value, existingPaths)
+    if (!error) return value
+    window.alert(error)
+  }
+}
+
+function FileExplorer({ files, activePath, onOpen, onCreate, onRename, onDelete }: FileExplorerProps) {
+  const paths = files.map((file) => file.path)
+
+  const handleCreate = () => {
+    const path = promptForPath('New file path (e.g. pkg/__init__.py or pyrightconfig.json):', '', paths)
+    if (path) onCreate(path)
+  }
+
+  const handleRename = (oldPath: string) => {
+    const path = promptForPath(`Rename ${oldPath} to:`, oldPath, paths.filter((p) => p !== oldPath))
+    if (path && path !== oldPath) onRename(oldPath, path)
+  }
+
+  const handleDelete = (path: string) => {
+    if (isPythonFile(path) && files.filter(file => isPythonFile(file.path)).length === 1) {
+      window.alert('The workspace must contain at least one Python file')
+      return
+    }
+    if (window.confirm(`Delete ${path}?`)) onDelete(path)
+  }
+
+  return (
+    <div className="file-explorer">
+      <div className="file-explorer-header">
+        <span>Files</span>
+        <button title="New file" onClick={handleCreate}>
+          +
+        </button>
+      </div>
+      <ul className="file-tree">
+        {buildTree(files).map((entry) =>
+          entry.kind === 'directory' ? (
+            <li
+              key={`dir:${entry.path}`}
+              className="file-tree-directory"
+              style={{ paddingLeft: `${0.75 + entry.depth}rem` }}
+            >
+              {entry.name}/
+            </li>
+          ) : (
+            <li
+              key={entry.path}
+              className={`file-tree-file${entry.path === activePath ? ' active' : ''}`}
+              style={{ paddingLeft: `${0.75 + entry.depth}rem` }}
+              onClick={() => onOpen(entry.path)}
+            >
+              <span className="file-tree-name">{entry.name}</span>
+              <span className="file-tree-actions">
+                <button
+                  title="Rename"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    handleRename(entry.path)
+                  }}
+                >
+                  ✎
+                </button>
+                <button
+                  title="Delete"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    handleDelete(entry.path)
+                  }}
+                >
+                  ×
+                </button>
+              </span>
+            </li>
+          )
+        )}
+      </ul>
+    </div>
+  )
+}
+
+export default FileExplorer
@@ -0,0 +1,145 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  clearTraffic,
+  exportTraffic,
+  getTrafficEntries,
+  subscribeTraffic,
+  type TrafficEntry
+} from '../services/lsp/trafficLog'
+import './LSPInspector.css'
+
+interface LSPInspectorProps {
+  onClose: () => void
+}
+
+function formatTime(time: number): string {
+  const date = new Date(time)
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`
+}
+
+function downloadTraffic() {
+  const blob = new Blob([exportTraffic()], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `lsp-traffic-${new Date().toISOString().replace(/[:.]/g, '-')}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function TrafficRow({ entry, expanded, onToggle }: {
+  entry: TrafficEntry
+  expanded: boolean
+  onToggle: () => void
+}) {
+  return (
+    <>
+      <tr
+        className={`traffic-row traffic-${entry.kind}${entry.isError ? ' traffic-error' : ''}${expanded ? ' expanded' : ''}`}
+        onClick={onToggle}
+      >
+        <td className="traffic-time">{formatTime(entry.time)}</td>
+        <td className="traffic-source">{entry.source}</td>
+        <td className="traffic-direction" title={entry.direction === 'send' ? 'Client to server' : 'Server to client'}>
+          {entry.direction === 'send' ? '→' : '←'}
+        </td>
+        <td className="traffic-kind">{entry.kind}</td>
+        <td className="traffic-method">{entry.method ?? ''}</td>
+        <td className="traffic-id">{entry.id ?? ''}</td>
+        <td className="traffic-latency">
+          {entry.latency !== undefined
+            ? `${entry.latency} ms`
+            : entry.kind === 'request' && entry.responseSeq === undefined ? 'pending' : ''}
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="traffic-payload-row">
+          <td colSpan={7}>
+            <pre className="traffic-payload">{JSON.stringify(entry.message, null, 2)}</pre>
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
+
+function LSPInspector({ onClose }: LSPInspectorProps) {
+  const [entries, setEntries] = useState<readonly TrafficEntry[]>(getTrafficEntries)
+  const [methodFilter, setMethodFilter] = useState('')
+  const [expanded, setExpanded] = useState<number | null>(null)
+
+  useEffect(() => subscribeTraffic(() => setEntries([...getTrafficEntries()])), [])
+
+  const methods = useMemo(
+    () => [...new Set(entries.flatMap(entry => entry.method ? [entry.method] : []))].sort(),
+    [entries]
+  )
+
+  const visible = useMemo(() => {
+    const filter = methodFilter.trim().toLowerCase()
+    if (!filter) return entries
+    return entries.filter(entry => entry.method?.toLowerCase().includes(filter))
+  }, [entries, methodFilter])
+
+  return (
+    <div className="lsp-inspector">
+      <div className="lsp-inspector-header">
+        <h2>LSP Traffic</h2>
+        <span className="lsp-inspector-count">
+          {visible.length === entries.length
+            ? `${entries.length} message${entries.length !== 1 ? 's' : ''}`
+            : `${visible.length} of ${entries.length} messages`}
+        </span>
+        <input
+          className="lsp-inspector-filter"
+          placeholder="Filter by method"
+          list="lsp-inspector-methods"
+          value={methodFilter}
+          onChange={event => setMethodFilter(event.target.value)}
+        />
+        <datalist id="lsp-inspector-methods">
+          {methods.map(method => <option key={method} value={method} />)}
+        </datalist>
+        <button className="lsp-inspector-button" onClick={clearTraffic}>Clear</button>
+        <button className="lsp-inspector-button" onClick={downloadTraffic} disabled={entries.length === 0}>
+          Export JSON
+        </button>
+        <button className="lsp-inspector-close" onClick={onClose} title="Close">×</button>
+      </div>
+      <div className="lsp-inspector-list">
+        {visible.length === 0 ? (
+          <div className="no-traffic">
+            {entries.length === 0 ? 'No messages recorded yet' : 'No messages match the filter'}
+          </div>
+        ) : (
+          <table className="traffic-table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Server</th>
+                <th></th>
+                <th>Kind</th>
+                <th>Method</th>
+                <th>ID</th>
+                <th>Latency</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(entry => (
+                <TrafficRow
+                  key={entry.seq}
+                  entry={entry}
+                  expanded={expanded === entry.seq}
+                  onToggle={() => setExpanded(seq => seq === entry.seq ? null : entry.seq)}
+                />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default LSPInspector
@@ -0,0 +1,80 @@
+import type { DiagnosticRange } from '../App'
+import type { OutlineSymbol } from '../services/lsp/documentSymbols'
+import './OutlinePanel.css'
+
+interface OutlinePanelProps {
+  symbols: OutlineSymbol[]
+  /**
+   * Whether the active checker can provide symbols for the active file
+   */
+  available: boolean
+  onSymbolClick?: (start: DiagnosticRange, end: DiagnosticRange) => void
+}
+
+// Short labels shown before each symbol's name
+const KIND_LABELS: Record<string, string> = {
+  module: 'mod',
+  class: 'class',
+  method: 'def',
+  function: 'def',
+  constructor: 'def',
+  property: 'prop',
+  field: 'field',
+  variable: 'var',
+  constant: 'const',
+  enum: 'enum',
+  enumMember: 'member',
+  typeParameter: 'type'
+}
+
+function SymbolTree({ symbols, depth, onSymbolClick }: {
+  symbols: OutlineSymbol[]
+  depth: number
+  onSymbolClick?: OutlinePanelProps['onSymbolClick']
+}) {
+  return (
+    <ul className="outline-tree">
+      {symbols.map((symbol, index) => (
+        <li key={`${symbol.name}-${index}`}>
+          <div
+            className="outline-symbol"
+            style={{ paddingLeft: `${0.75 + depth}rem` }}
+            onClick={() => onSymbolClick?.(symbol.selectionStart, symbol.selectionEnd)}
+            title={`${symbol.kind} ${symbol.name} (line ${symbol.start.line})`}
+          >
+            <span className={`outline-kind outline-kind-${symbol.kind}`}>
+              {KIND_LABELS[symbol.kind] ?? symbol.kind}
+            </span>
+            <span className="outline-name">{symbol.name}</span>
+            {symbol.detail && <span className="outline-detail">{symbol.detail}</span>}
+          </div>
+          {symbol.children.length > 0 && (
+            <SymbolTree symbols={symbol.children} depth={depth + 1} onSymbolClick={onSymbolClick} />
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function OutlinePanel({ symbols, available, onSymbolClick }: OutlinePanelProps) {
+  return (
+    <div className="outline-panel">
+      <div className="outline-header">
+        <h2>Outline</h2>
+        <span className="outline-shortcut" title="Go to symbol">Ctrl+Shift+O</span>
+      </div>
+      <div className="outline-list">
+        {!available ? (
+          <div className="no-symbols">Outline is available for Python files with an LSP checker</div>
+        ) : symbols.length === 0 ? (
+          <div className="no-symbols">No symbols</div>
+        ) : (
+          <SymbolTree symbols={symbols} depth={0} onSymbolClick={onSymbolClick} />
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default OutlinePanel
@@ -0,0 +1,100 @@
+import { useRef, useState, type DragEvent } from 'react'
+import { unpackArchive, type InstalledPackage } from '../services/sitePackages'
+import './SitePackagesPanel.css'
+
+interface SitePackagesPanelProps {
+  packages: InstalledPackage[]
+  onInstall: (pkg: InstalledPackage) => void
+  onUninstall: (archive: string) => void
+}
+
+const ARCHIVE_TYPES = '.whl,.tar.gz,.tgz,.zip'
+
+function SitePackagesPanel({ packages, onInstall, onUninstall }: SitePackagesPanelProps) {
+  const [dragging, setDragging] = useState(false)
+  const [installing, setInstalling] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const install = async (archives: File[]) => {
+    if (archives.length === 0) return
+    setInstalling(true)
+    setError(null)
+    const errors: string[] = []
+    for (const archive of archives) {
+      try {
+        onInstall(await unpackArchive(archive))
+      } catch (e) {
+        errors.push(e instanceof Error ? e.message : `${archive.name}: ${e}`)
+      }
+    }
+    setInstalling(false)
+    if (errors.length > 0) setError(errors.join('\n'))
+  }
+
+  const handleDragOver = (event: DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return
+    event.preventDefault()
+    setDragging(true)
+  }
+
+  const handleDrop = (event: DragEvent) => {
+    event.preventDefault()
+    setDragging(false)
+    install([...event.dataTransfer.files])
+  }
+
+  return (
+    <div
+      className={`site-packages${dragging ? ' dragging' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+    >
+      <div className="site-packages-header">
+        <span>site-packages</span>
+        <button
+          title="Install wheels, sdists or stub packages"
+          onClick={() => inputRef.current?.click()}
+          disabled={installing}
+        >
+          +
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ARCHIVE_TYPES}
+          multiple
+          hidden
+          onChange={event => {
+            install([...event.target.files ?? []])
+            event.target.value = ''
+          }}
+        />
+      </div>
+      {packages.length === 0 ? (
+        <div className="site-packages-empty">
+          {installing ? 'Installing…' : 'Drop .whl, .tar.gz or types-* archives here'}
+        </div>
+      ) : (
+        <ul className="site-packages-list">
+          {packages.map(pkg => (
+            <li key={pkg.archive} title={pkg.files.map(file => file.path).join('\n')}>
+              <span className="site-packages-name">{pkg.archive}</span>
+              <span className="site-packages-count">{pkg.files.length}</span>
+              <button title="Uninstall" onClick={() => onUninstall(pkg.archive)}>×</button>
+            </li>
+          ))}
+          {installing && <li className="site-packages-installing">Installing…</li>}
+        </ul>
+      )}
+      {error && (
+        <div className="site-packages-error" onClick={() => setError(null)} title="Click to dismiss">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SitePackagesPanel
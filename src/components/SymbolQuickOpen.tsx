@@ -0,0 +1,95 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { FlatSymbol } from '../services/lsp/documentSymbols'
+import './SymbolQuickOpen.css'
+
+interface SymbolQuickOpenProps {
+  symbols: FlatSymbol[]
+  onSelect: (symbol: FlatSymbol) => void
+  onClose: () => void
+}
+
+/**
+ * Whether every character of the query appears in the name, in order
+ */
+function matches(name: string, query: string): boolean {
+  let index = 0
+  for (const char of name.toLowerCase()) {
+    if (char === query[index]) index++
+    if (index === query.length) return true
+  }
+  return query.length === 0
+}
+
+function SymbolQuickOpen({ symbols, onSelect, onClose }: SymbolQuickOpenProps) {
+  const [query, setQuery] = useState('')
+  const [selected, setSelected] = useState(0)
+  const listRef = useRef<HTMLUListElement>(null)
+
+  const results = useMemo(() => {
+    const lowered = query.trim().toLowerCase()
+    return symbols
+      .filter(symbol => matches(symbol.name, lowered))
+      // Names that start with the query first, then in document order
+      .sort((a, b) => Number(b.name.toLowerCase().startsWith(lowered)) - Number(a.name.toLowerCase().startsWith(lowered)))
+  }, [symbols, query])
+
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' })
+  }, [selected])
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault()
+      setSelected(index => Math.min(index + 1, results.length - 1))
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault()
+      setSelected(index => Math.max(index - 1, 0))
+    } else if (event.key === 'Enter') {
+      event.preventDefault()
+      const symbol = results[selected]
+      if (symbol) onSelect(symbol)
+    } else if (event.key === 'Escape') {
+      event.preventDefault()
+      onClose()
+    }
+  }
+
+  return (
+    <div className="quick-open-backdrop" onMouseDown={onClose}>
+      <div className="quick-open" onMouseDown={event => event.stopPropagation()}>
+        <input
+          className="quick-open-input"
+          autoFocus
+          placeholder="Go to symbol in file"
+          value={query}
+          onChange={event => {
+            setQuery(event.target.value)
+            setSelected(0)
+          }}
+          onKeyDown={handleKeyDown}
+        />
+        <ul className="quick-open-list" ref={listRef}>
+          {results.length === 0 ? (
+            <li className="quick-open-empty">No matching symbols</li>
+          ) : (
+            results.map((symbol, index) => (
+              <li
+                key={`${symbol.container}.${symbol.name}-${symbol.start.line}-${symbol.start.column}`}
+                className={index === selected ? 'quick-open-item selected' : 'quick-open-item'}
+                onMouseEnter={() => setSelected(index)}
+                onClick={() => onSelect(symbol)}
+              >
+                <span className={`outline-kind outline-kind-${symbol.kind}`}>{symbol.kind}</span>
+                <span className="quick-open-name">{symbol.name}</span>
+                {symbol.container && <span className="quick-open-container">{symbol.container}</span>}
+                <span className="quick-open-line">{symbol.start.line}</span>
+              </li>
+            ))
+          )}
+        </ul>
+      </div>
+    </div>
+  )
+}
+
+export default SymbolQuickOpen
@@ -0,0 +1,118 @@
+import type { DiagnosticRange, PythonVersion, TypeChecker } from '../App'
+import { getChecker } from '../services/checkers'
+import { matchVersions, type VersionMatrixResults, type VersionMatrixRow } from '../services/versionMatrixService'
+import './VersionMatrixView.css'
+
+interface VersionMatrixViewProps {
+  typeChecker: TypeChecker
+  versions: readonly PythonVersion[]
+  results: VersionMatrixResults
+  errors: Partial<Record<PythonVersion, string>>
+  onDiagnosticClick?: (start?: DiagnosticRange, end?: DiagnosticRange, path?: string) => void
+}
+
+function summaryLabel(row: VersionMatrixRow, versions: readonly PythonVersion[]): string {
+  switch (row.status) {
+    case 'all':
+      return 'All versions'
+    case 'since':
+      return `${row.boundary}+`
+    case 'until':
+      return `≤ ${row.boundary}`
+    case 'mixed':
+      return versions.filter((version) => row.byVersion[version]).join(', ')
+  }
+}
+
+function VersionMatrixView({ typeChecker, versions, results, errors, onDiagnosticClick }: VersionMatrixViewProps) {
+  const rows = matchVersions(results, versions)
+  const changing = rows.filter((row) => row.status !== 'all').length
+
+  return (
+    <div className="version-matrix">
+      <div className="version-matrix-header">
+        <h2>Python versions ({getChecker(typeChecker).label})</h2>
+        <span className="version-matrix-summary">
+          {`${rows.length} diagnostic${rows.length !== 1 ? 's' : ''}, `}
+          {`${changing} version-dependent`}
+        </span>
+      </div>
+      <div className="version-matrix-table-wrapper">
+        <table className="version-matrix-table">
+          <thead>
+            <tr>
+              <th className="version-matrix-location-column">Location</th>
+              <th>Diagnostic</th>
+              {versions.map((version) => (
+                <th key={version} className="version-matrix-version-column">
+                  {version}
+                  <span className="version-matrix-column-status">
+                    {errors[version]
+                      ? 'failed'
+                      : results[version] === undefined
+                        ? 'checking...'
+                        : results[version]!.length}
+                  </span>
+                </th>
+              ))}
+              <th className="version-matrix-summary-column">Reported in</th>
+            </tr>
+          </thead>
+          <tbody>
+            {versions.some((version) => errors[version]) && (
+              <tr className="version-matrix-row version-matrix-errors">
+                <td colSpan={versions.length + 3}>
+                  {versions
+                    .filter((version) => errors[version])
+                    .map((version) => <div key={version}>{`Python ${version}: ${errors[version]}`}</div>)}
+                </td>
+              </tr>
+            )}
+            {rows.length === 0 ? (
+              <tr>
+                <td className="no-diagnostics" colSpan={versions.length + 3}>
+                  No diagnostics for any Python version
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => (
+                <tr
+                  key={row.key}
+                  className={`version-matrix-row version-matrix-${row.status}`}
+                  onClick={() => row.start && onDiagnosticClick?.(row.start, row.end, row.path)}
+                >
+                  <td className="version-matrix-location">
+                    {row.path && <div className="version-matrix-path">{row.path}</div>}
+                    {row.start ? `${row.start.line}:${row.start.column}` : '?'}
+                  </td>
+                  <td>
+                    <div className={`version-matrix-message diagnostic-${row.diagnostic.severity}`}>
+                      {row.diagnostic.message}
+                      {row.diagnostic.code && (
+                        <span className="version-matrix-code">{row.diagnostic.code}</span>
+                      )}
+                    </div>
+                  </td>
+                  {versions.map((version) => (
+                    <td key={version} className="version-matrix-cell">
+                      {results[version] === undefined ? (
+                        <span className="version-matrix-unknown">?</span>
+                      ) : row.byVersion[version] ? (
+                        <span className="version-matrix-present" title={`Reported for Python ${version}`}>●</span>
+                      ) : (
+                        <span className="version-matrix-absent" title={`Not reported for Python ${version}`}>—</span>
+                      )}
+                    </td>
+                  ))}
+                  <td className="version-matrix-status">{summaryLabel(row, versions)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+export default VersionMatrixView
@@ -0,0 +1,3 @@
+import type { PythonVersion } from './App'
+
+export const PYTHON_VERSIONS: PythonVersion[] = ['3.9', '3.10', '3.11', '3.12', '3.13', '3.14']
@@ -1,16 +0,0 @@
-import type { Diagnostic, PythonVersion } from '../App'
-
-// BasedPyright is a fork of Pyright with additional features
-// Similar integration approach to Pyright
-
-export async function checkWithBasedPyright(
-  code: string,
-  pythonVersion: PythonVersion
-): Promise<Diagnostic[]> {
-  // TODO: Implement actual BasedPyright integration
-  console.log('Checking with BasedPyright, Python version:', pythonVersion)
-  console.log('Code:', code)
-
-  // Placeholder
-  return []
-}
@@ -0,0 +1,396 @@
+/**
+ * Checker configuration files
+ *
+ * The workspace may contain a pyrightconfig.json, a pyproject.toml with [tool.pyright]
+ * and [tool.ty] sections, or a ty.toml at its root. This module parses and validates
+ * them and resolves the settings each checker should run with, following the same
+ * precedence rules as the checkers themselves.
+ */
+
+import { parse as parseToml, TomlError } from 'smol-toml'
+import type { Diagnostic, DiagnosticRange } from '../App'
+import type { PlaygroundFile } from './workspaceFiles'
+
+export const CONFIG_FILE_NAMES = ['pyrightconfig.json', 'pyproject.toml', 'ty.toml'] as const
+
+export type ConfigFileName = typeof CONFIG_FILE_NAMES[number]
+
+/**
+ * Starting contents for new configuration files
+ */
+export const CONFIG_TEMPLATES: Record<ConfigFileName, string> = {
+  'pyrightconfig.json': `{
+  "typeCheckingMode": "standard",
+  "reportUnnecessaryTypeIgnoreComment": "warning"
+}
+`,
+  'pyproject.toml': `[tool.pyright]
+typeCheckingMode = "standard"
+
+[tool.ty.rules]
+possibly-unresolved-reference = "warn"
+`,
+  'ty.toml': `[rules]
+possibly-unresolved-reference = "warn"
+`
+}
+
+type Settings = Record<string, unknown>
+
+export interface CheckerConfig {
+  /**
+   * Settings for Pyright and BasedPyright in pyrightconfig.json form, or null if
+   * the workspace does not configure them
+   */
+  pyright: Settings | null
+
+  /**
+   * ty options in ty.toml form, or null if the workspace does not configure ty
+   */
+  ty: Settings | null
+
+  /**
+   * Workspace path of the file the ty options came from
+   */
+  tySource: string | null
+
+  /**
+   * Syntax and validation problems found in the configuration files
+   */
+  diagnostics: Diagnostic[]
+}
+
+/**
+ * Whether a workspace path is one of the configuration files read by the checkers
+ */
+export function isConfigFile(path: string): boolean {
+  return (CONFIG_FILE_NAMES as readonly string[]).includes(path)
+}
+
+const PYRIGHT_SEVERITIES = ['none', 'hint', 'information', 'warning', 'error']
+const PYRIGHT_TYPE_CHECKING_MODES = ['off', 'basic', 'standard', 'strict', 'recommended', 'all']
+
+const PYRIGHT_BOOLEAN_SETTINGS = [
+  'strictListInference',
+  'strictDictionaryInference',
+  'strictSetInference',
+  'analyzeUnannotatedFunctions',
+  'strictParameterNoneValue',
+  'enableExperimentalFeatures',
+  'enableTypeIgnoreComments',
+  'enableReachabilityAnalysis',
+  'deprecateTypingAliases',
+  'disableBytesTypePromotions',
+  'useLibraryCodeForTypes',
+  'failOnWarnings',
+  'verboseOutput',
+  'enableBasedFeatures'
+]
+
+const PYRIGHT_LIST_SETTINGS = ['include', 'exclude', 'ignore', 'strict', 'extraPaths', 'allowedUntypedLibraries']
+
+/**
+ * Settings the playground controls itself; values from the workspace are overridden
+ */
+const PYRIGHT_MANAGED_SETTINGS: Record<string, string> = {
+  pythonVersion: 'pythonVersion is set by the Python version selector',
+  typeshedPath: 'typeshedPath is managed by the playground',
+  stubPath: 'stubPath is managed by the playground',
+  venvPath: 'venvPath is managed by the playground, which installs packages into its own .venv',
+  venv: 'venv is managed by the playground, which installs packages into its own .venv'
+}
+
+const PYRIGHT_OTHER_SETTINGS = [
+  'defineConstant',
+  'pythonPlatform',
+  'executionEnvironments',
+  'extends',
+  'baselineFile'
+]
+
+const TY_RULE_SEVERITIES = ['ignore', 'warn', 'error']
+
+const TY_SECTIONS: Record<string, string[] | null> = {
+  environment: ['python-version', 'python-platform', 'python', 'extra-paths', 'typeshed', 'root'],
+  src: ['include', 'exclude', 'respect-ignore-files', 'root'],
+  rules: null,
+  terminal: ['output-format', 'error-on-warning'],
+  analysis: ['respect-type-ignore-comments', 'allowed-unresolved-imports'],
+  overrides: null
+}
+
+function isTable(value: unknown): value is Settings {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Convert a character offset into a 1-based line and column
+ */
+function offsetToPosition(text: string, offset: number): DiagnosticRange {
+  const lines = text.slice(0, offset).split('\n')
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 }
+}
+
+/**
+ * Find where a key is defined so that validation messages point at it
+ */
+function findKey(text: string, key: string, format: 'json' | 'toml'): { start: DiagnosticRange; end: DiagnosticRange } {
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const pattern = format === 'json'
+    ? new RegExp(`"${escaped}"\\s*:`)
+    // A TOML key assignment, or a table header such as [tool.pyright]
+    : new RegExp(`^[ \\t]*(?:\\[{1,2}(?:[^\\]\\n]*\\.)?)?(?:"${escaped}"|${escaped})[ \\t]*(?:=|\\])`, 'm')
+  const match = pattern.exec(text)
+  if (!match) {
+    return { start: { line: 1, column: 1 }, end: { line: 1, column: 1 } }
+  }
+  const offset = match.index + match[0].indexOf(key)
+  return { start: offsetToPosition(text, offset), end: offsetToPosition(text, offset + key.length) }
+}
+
+/**
+ * Blank out comments and trailing commas so JSON.parse accepts pyrightconfig.json,
+ * which Pyright reads as JSON with comments. Offsets are preserved for error positions.
+ */
+function stripJsonComments(text: string): string {
+  let result = ''
+  let inString = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      result += char
+      if (char === '\\') {
+        result += text[++i] ?? ''
+      } else if (char === '"') {
+        inString = false
+      }
+    } else if (char === '"') {
+      inString = true
+      result += char
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') {
+        result += ' '
+        i++
+      }
+      result += text[i] ?? ''
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2)
+      const stop = end === -1 ? text.length : end + 2
+      result += text.slice(i, stop).replace(/[^\n]/g, ' ')
+      i = stop - 1
+    } else {
+      result += char
+    }
+  }
+
+  return result.replace(/,(\s*[}\]])/g, ' $1')
+}
+
+class ConfigValidator {
+  readonly diagnostics: Diagnostic[] = []
+  private file: PlaygroundFile
+  private format: 'json' | 'toml'
+
+  constructor(file: PlaygroundFile, format: 'json' | 'toml') {
+    this.file = file
+    this.format = format
+  }
+
+  report(key: string | null, message: string, severity: Diagnostic['severity'] = 'warning'): void {
+    const range = key
+      ? findKey(this.file.content, key, this.format)
+      : { start: { line: 1, column: 1 }, end: { line: 1, column: 1 } }
+    this.diagnostics.push({ path: this.file.path, ...range, message, severity, source: 'config' })
+  }
+
+  reportAt(position: DiagnosticRange, message: string): void {
+    this.diagnostics.push({
+      path: this.file.path,
+      start: position,
+      end: { line: position.line, column: position.column + 1 },
+      message,
+      severity: 'error',
+      source: 'config'
+    })
+  }
+}
+
+function parseJsonFile(file: PlaygroundFile, validator: ConfigValidator): Settings | null {
+  try {
+    const data: unknown = JSON.parse(stripJsonComments(file.content))
+    if (!isTable(data)) {
+      validator.report(null, 'Expected a JSON object', 'error')
+      return null
+    }
+    return data
+  } catch (error) {
+    const message = (error as Error).message
+    const offset = /position (\d+)/.exec(message)
+    validator.reportAt(
+      offset ? offsetToPosition(file.content, Number(offset[1])) : { line: 1, column: 1 },
+      `Invalid JSON: ${message}`
+    )
+    return null
+  }
+}
+
+function parseTomlFile(file: PlaygroundFile, validator: ConfigValidator): Settings | null {
+  try {
+    return parseToml(file.content) as Settings
+  } catch (error) {
+    if (error instanceof TomlError) {
+      validator.reportAt({ line: error.line, column: error.column }, error.message.split('\n')[0])
+    } else {
+      validator.report(null, `Invalid TOML: ${(error as Error).message}`, 'error')
+    }
+    return null
+  }
+}
+
+/**
+ * Check Pyright settings, dropping the ones the playground manages itself
+ */
+function validatePyrightSettings(settings: Settings, validator: ConfigValidator): Settings {
+  const result: Settings = {}
+
+  for (const [key, value] of Object.entries(settings)) {
+    if (key in PYRIGHT_MANAGED_SETTINGS) {
+      validator.report(key, `${PYRIGHT_MANAGED_SETTINGS[key]}; this setting is ignored`, 'info')
+      continue
+    }
+
+    if (key.startsWith('report')) {
+      if (typeof value !== 'boolean' && !PYRIGHT_SEVERITIES.includes(value as string)) {
+        validator.report(key, `${key} must be a boolean or one of ${PYRIGHT_SEVERITIES.map(s => `"${s}"`).join(', ')}`, 'error')
+        continue
+      }
+    } else if (key === 'typeCheckingMode') {
+      if (!PYRIGHT_TYPE_CHECKING_MODES.includes(value as string)) {
+        validator.report(key, `typeCheckingMode must be one of ${PYRIGHT_TYPE_CHECKING_MODES.map(m => `"${m}"`).join(', ')}`, 'error')
+        continue
+      }
+    } else if (PYRIGHT_BOOLEAN_SETTINGS.includes(key)) {
+      if (typeof value !== 'boolean') {
+        validator.report(key, `${key} must be a boolean`, 'error')
+        continue
+      }
+    } else if (PYRIGHT_LIST_SETTINGS.includes(key)) {
+      if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+        validator.report(key, `${key} must be a list of strings`, 'error')
+        continue
+      }
+    } else if (!PYRIGHT_OTHER_SETTINGS.includes(key)) {
+      validator.report(key, `Unknown setting "${key}"`)
+    }
+
+    result[key] = value
+  }
+
+  return result
+}
+
+/**
+ * Check ty options, dropping the ones the playground manages itself
+ */
+function validateTyOptions(options: Settings, validator: ConfigValidator): Settings {
+  const result: Settings = {}
+
+  for (const [section, value] of Object.entries(options)) {
+    if (!(section in TY_SECTIONS)) {
+      validator.report(section, `Unknown section "${section}"`)
+      continue
+    }
+
+    const knownKeys = TY_SECTIONS[section]
+    if (section === 'overrides') {
+      result[section] = value
+      continue
+    }
+    if (!isTable(value)) {
+      validator.report(section, `"${section}" must be a table`, 'error')
+      continue
+    }
+
+    const table: Settings = {}
+    for (const [key, entry] of Object.entries(value)) {
+      if (section === 'rules') {
+        if (!TY_RULE_SEVERITIES.includes(entry as string)) {
+          validator.report(key, `Rule "${key}" must be one of ${TY_RULE_SEVERITIES.map(s => `"${s}"`).join(', ')}`, 'error')
+          continue
+        }
+      } else if (section === 'environment' && key === 'python-version') {
+        validator.report(key, 'python-version is set by the Python version selector; this setting is ignored', 'info')
+        continue
+      } else if (knownKeys && !knownKeys.includes(key)) {
+        validator.report(key, `Unknown option "${section}.${key}"`)
+      }
+      table[key] = entry
+    }
+    result[section] = table
+  }
+
+  return result
+}
+
+/**
+ * Resolve the configuration for every checker from the workspace files
+ */
+export function resolveCheckerConfig(files: PlaygroundFile[]): CheckerConfig {
+  const config: CheckerConfig = { pyright: null, ty: null, tySource: null, diagnostics: [] }
+  const byName = new Map(files.filter(file => isConfigFile(file.path)).map(file => [file.path, file]))
+
+  const pyrightConfig = byName.get('pyrightconfig.json')
+  const pyproject = byName.get('pyproject.toml')
+  const tyToml = byName.get('ty.toml')
+
+  let pyprojectData: Settings | null = null
+  let pyprojectValidator: ConfigValidator | null = null
+  if (pyproject) {
+    pyprojectValidator = new ConfigValidator(pyproject, 'toml')
+    pyprojectData = parseTomlFile(pyproject, pyprojectValidator)
+  }
+  const tool = isTable(pyprojectData?.tool) ? pyprojectData.tool : {}
+
+  // Pyright reads pyrightconfig.json and only falls back to [tool.pyright]
+  if (pyrightConfig) {
+    const validator = new ConfigValidator(pyrightConfig, 'json')
+    const data = parseJsonFile(pyrightConfig, validator)
+    config.pyright = data && validatePyrightSettings(data, validator)
+    config.diagnostics.push(...validator.diagnostics)
+    if (pyprojectValidator && 'pyright' in tool) {
+      pyprojectValidator.report('pyright', '[tool.pyright] is ignored because pyrightconfig.json takes precedence', 'info')
+    }
+  } else if (pyprojectValidator && 'pyright' in tool) {
+    if (isTable(tool.pyright)) {
+      config.pyright = validatePyrightSettings(tool.pyright, pyprojectValidator)
+    } else {
+      pyprojectValidator.report('pyright', '[tool.pyright] must be a table', 'error')
+    }
+  }
+
+  // ty reads ty.toml and only falls back to [tool.ty]
+  if (tyToml) {
+    const validator = new ConfigValidator(tyToml, 'toml')
+    const data = parseTomlFile(tyToml, validator)
+    config.ty = data && validateTyOptions(data, validator)
+    config.tySource = tyToml.path
+    config.diagnostics.push(...validator.diagnostics)
+    if (pyprojectValidator && 'ty' in tool) {
+      pyprojectValidator.report('ty', '[tool.ty] is ignored because ty.toml takes precedence', 'info')
+    }
+  } else if (pyprojectValidator && 'ty' in tool) {
+    if (isTable(tool.ty)) {
+      config.ty = validateTyOptions(tool.ty, pyprojectValidator)
+      config.tySource = pyproject!.path
+    } else {
+      pyprojectValidator.report('ty', '[tool.ty] must be a table', 'error')
+    }
+  }
+
+  if (pyprojectValidator) {
+    config.diagnostics.push(...pyprojectValidator.diagnostics)
+  }
+
+  return config
+}
@@ -0,0 +1,310 @@
+/**
+ * Checker Registry
+ *
+ * Every type checker the playground can run is declared here once: its label, how it
+ * runs (as a language server or as a one-shot check of the active file), how its
+ * server is started and which workspace configuration it reads. The app, the controls,
+ * the diagnostics panel and comparison mode are all driven from this registry.
+ */
+
+import type { Diagnostic, PythonVersion } from '../App'
+import { WebWorkerTransport } from './lsp/WebWorkerTransport'
+import { BasedPyrightTransport } from './lsp/BasedPyrightTransport'
+import { PyrightTransport } from './lsp/PyrightTransport'
+import type { ClosableTransport } from './lsp/HeadlessLSPSession'
+import { pathToUri, type PlaygroundFile } from './workspaceFiles'
+import typeshedInfo from './lsp/typeshedInfo.json'
+
+export type TypeChecker = 'pyright' | 'basedpyright' | 'ty' | 'pyrefly'
+
+/**
+ * Checker settings from the workspace's configuration files, keyed by the
+ * configuration section each checker reads
+ */
+export interface CheckerSettings {
+  /**
+   * pyrightconfig.json or [tool.pyright], read by Pyright and BasedPyright
+   */
+  pyright: Record<string, unknown> | null
+  /**
+   * ty.toml or [tool.ty], and the workspace path of the file it came from
+   */
+  ty: { options: Record<string, unknown> | null; source: string | null }
+}
+
+/**
+ * The initializationOptions every language server checker is started with
+ */
+export interface CheckerInitializationOptions {
+  pythonVersion: PythonVersion
+  /**
+   * Installed packages, with paths relative to site-packages. Servers search them
+   * as the site-packages of a virtual environment at SITE_PACKAGES_DIR.
+   */
+  sitePackages: PlaygroundFile[]
+}
+
+/**
+ * The build every checker has: the one installed with the playground
+ */
+export const BUNDLED_BUILD = 'bundled'
+
+/**
+ * A build of a checker that can be selected. Besides the bundled build, these are the
+ * versions scripts/build-checker-versions.mjs built into public/checker-versions.
+ */
+export interface CheckerBuild {
+  /**
+   * BUNDLED_BUILD, or the version the build was made from
+   */
+  id: string
+  /**
+   * The checker version the build is of, when it is known
+   */
+  version: string | null
+  label: string
+  /**
+   * URL of the build's worker script or WASM module, absent for the bundled build
+   */
+  url?: string
+}
+
+interface CheckerVersionsIndex {
+  /**
+   * Version of the bundled build, when the build script could tell
+   */
+  bundled: string | null
+  builds: { version: string; path: string }[]
+}
+
+// Written by the build script and not committed, so it is absent until versions are built
+const VERSIONS_INDEX: Partial<Record<TypeChecker, CheckerVersionsIndex>> =
+  Object.values(
+    import.meta.glob<Partial<Record<TypeChecker, CheckerVersionsIndex>>>('./checkerVersions.generated.json', {
+      eager: true,
+      import: 'default'
+    })
+  )[0] ?? {}
+
+export interface TransportOptions {
+  pythonVersion: PythonVersion
+  /**
+   * The build of the checker to start, the bundled one if omitted
+   */
+  build?: CheckerBuild
+  /**
+   * Workspace files, for servers that need them before they start
+   */
+  files: PlaygroundFile[]
+  settings: CheckerSettings
+  /**
+   * Called when the server's worker reports an error it cannot recover from
+   */
+  onCrash?: (reason: string) => void
+}
+
+interface CheckerBase {
+  id: TypeChecker
+  label: string
+  /**
+   * The configuration section the checker reads, if any
+   */
+  settingsSection?: keyof CheckerSettings
+  /**
+   * The typeshed commit of the stdlib stubs the checker is given, when it is known
+   */
+  typeshedCommit?: string
+}
+
+/**
+ * A checker that runs as a language server in a worker and pushes diagnostics
+ */
+export interface LSPCheckerDefinition extends CheckerBase {
+  kind: 'lsp'
+  /**
+   * Start a server and resolve once its transport is ready for the initialize request
+   */
+  createTransport: (options: TransportOptions) => Promise<ClosableTransport>
+  /**
+   * How long to wait for the server to respond, in milliseconds
+   */
+  timeout: number
+  /**
+   * Build the workspace/didChangeConfiguration params that apply settings to a running
+   * server. Servers without it only read their settings at startup and are restarted
+   * when the settings change.
+   */
+  configurationParams?: (settings: CheckerSettings) => unknown
+}
+
+/**
+ * A checker that is run on the active file after each edit
+ */
+export interface OneShotCheckerDefinition extends CheckerBase {
+  kind: 'oneshot'
+  check: (code: string, pythonVersion: PythonVersion) => Promise<Diagnostic[]>
+}
+
+export type CheckerDefinition = LSPCheckerDefinition | OneShotCheckerDefinition
+
+/**
+ * Wait for a Pyright-family worker to boot before handing out its transport
+ */
+async function whenReady<T extends { ready: Promise<void> }>(transport: T): Promise<T> {
+  await transport.ready
+  return transport
+}
+
+function logWorkerEvents(name: string, onCrash?: (reason: string) => void) {
+  return {
+    onError: (error: ErrorEvent | Error) => {
+      console.error(`[LSP] ${name} worker error:`, error)
+      onCrash?.(error.message || `${name} worker error`)
+    },
+    onClose: () => {
+      console.log(`[LSP] ${name} worker connection closed`)
+    }
+  }
+}
+
+/**
+ * The URL a WASM checker's worker is started from. Another build than the bundled one
+ * is passed to the worker as its `build` parameter, which it loads on initialize.
+ */
+function workerUrl(worker: URL, build: CheckerBuild | undefined): URL {
+  if (build?.url) {
+    worker.searchParams.set('build', new URL(build.url, window.location.href).href)
+  }
+  return worker
+}
+
+/**
+ * Build the workspace/didChangeConfiguration parameters that apply ty options from the
+ * workspace (ty.toml or [tool.ty] in pyproject.toml) to a running ty worker.
+ * The worker reports options it rejects as diagnostics on the source file.
+ */
+function tyConfigurationParams({ ty }: CheckerSettings) {
+  return {
+    settings: {
+      ty: {
+        options: ty.options,
+        sourceUri: ty.source === null ? null : pathToUri(ty.source)
+      }
+    }
+  }
+}
+
+const REGISTRY: Record<TypeChecker, CheckerDefinition> = {
+  pyright: {
+    id: 'pyright',
+    label: 'Pyright',
+    kind: 'lsp',
+    settingsSection: 'pyright',
+    timeout: 30000, // pyright can be slow to initialize
+    createTransport: ({ pythonVersion, build, files, settings, onCrash }) => whenReady(new PyrightTransport({
+      pythonVersion,
+      files,
+      settings: settings.pyright,
+      workerUrl: build?.url,
+      ...logWorkerEvents('pyright', onCrash)
+    }))
+  },
+  basedpyright: {
+    id: 'basedpyright',
+    label: 'BasedPyright',
+    kind: 'lsp',
+    settingsSection: 'pyright',
+    typeshedCommit: typeshedInfo.commit,
+    timeout: 30000, // basedpyright can be slow to initialize
+    createTransport: ({ pythonVersion, build, files, settings, onCrash }) => whenReady(new BasedPyrightTransport({
+      pythonVersion,
+      files,
+      settings: settings.pyright,
+      workerUrl: build?.url,
+      ...logWorkerEvents('basedpyright', onCrash)
+    }))
+  },
+  ty: {
+    id: 'ty',
+    label: 'ty',
+    kind: 'lsp',
+    settingsSection: 'ty',
+    timeout: 10000,
+    createTransport: async ({ build, onCrash }) => new WebWorkerTransport({
+      worker: workerUrl(new URL('../workers/tyWorker.ts', import.meta.url), build),
+      workerOptions: { type: 'module' },
+      ...logWorkerEvents('ty', onCrash)
+    }),
+    configurationParams: tyConfigurationParams
+  },
+  pyrefly: {
+    id: 'pyrefly',
+    label: 'Pyrefly',
+    kind: 'lsp',
+    timeout: 10000,
+    createTransport: async ({ build, onCrash }) => new WebWorkerTransport({
+      worker: workerUrl(new URL('../workers/pyreflyWorker.ts', import.meta.url), build),
+      workerOptions: { type: 'module' },
+      ...logWorkerEvents('pyrefly', onCrash)
+    })
+  }
+}
+
+/**
+ * Every checker, in the order they are offered in the UI
+ */
+export const CHECKERS: CheckerDefinition[] = Object.values(REGISTRY)
+
+/**
+ * Checkers that run as language servers, and so can take part in a comparison
+ */
+export const LSP_CHECKERS = CHECKERS.filter((checker): checker is LSPCheckerDefinition => checker.kind === 'lsp')
+
+export function getChecker(id: TypeChecker): CheckerDefinition {
+  return REGISTRY[id]
+}
+
+export function isTypeChecker(value: unknown): value is TypeChecker {
+  return typeof value === 'string' && value in REGISTRY
+}
+
+/**
+ * The builds of a checker that can be selected, the bundled one first
+ */
+export function getCheckerBuilds(id: TypeChecker): CheckerBuild[] {
+  const { bundled, builds } = VERSIONS_INDEX[id] ?? { bundled: null, builds: [] }
+  return [
+    { id: BUNDLED_BUILD, version: bundled, label: bundled ? `${bundled} (bundled)` : 'Bundled' },
+    ...builds.map(build => ({
+      id: build.version,
+      version: build.version,
+      label: build.version,
+      url: `${import.meta.env.BASE_URL}${build.path}`
+    }))
+  ]
+}
+
+/**
+ * A build of a checker by id, or the bundled build if it is not available
+ */
+export function getCheckerBuild(id: TypeChecker, buildId: string): CheckerBuild {
+  const builds = getCheckerBuilds(id)
+  return builds.find(build => build.id === buildId) ?? builds[0]
+}
+
+/**
+ * The workspace/didChangeConfiguration params that switch a running language server to
+ * another Python version. Every LSP checker applies them in place, without a restart.
+ */
+export function pythonVersionParams(pythonVersion: PythonVersion) {
+  return { settings: { python: { pythonVersion } } }
+}
+
+/**
+ * The settings a checker reads only at startup, as a JSON snapshot, or null if it
+ * reads none or applies them to the running server. A change means a restart.
+ */
+export function startupSettingsKey(checker: CheckerDefinition, settings: CheckerSettings): string | null {
+  if (!checker.settingsSection || (checker.kind === 'lsp' && checker.configurationParams)) return null
+  return JSON.stringify(settings[checker.settingsSection])
+}
@@ -0,0 +1,244 @@
+/**
+ * Comparison Service
+ *
+ * Runs several LSP-backed checkers on the same workspace at once and lines up their
+ * diagnostics by file, line and range so agreements and disagreements stand out.
+ * A comparison is either every checker, or two builds of the same checker, to tell
+ * whether a change in behavior came with a checker upgrade.
+ */
+
+import type { Diagnostic, DiagnosticRange, PythonVersion, TypeChecker } from '../App'
+import { HeadlessLSPSession } from './lsp/HeadlessLSPSession'
+import { TracedTransport } from './lsp/TracedTransport'
+import {
+  BUNDLED_BUILD,
+  LSP_CHECKERS,
+  pythonVersionParams,
+  type CheckerBuild,
+  type CheckerInitializationOptions,
+  type CheckerSettings,
+  type LSPCheckerDefinition
+} from './checkers'
+import { toAppDiagnostic } from './lsp/diagnostics'
+import { uriToPath, type PlaygroundFile } from './workspaceFiles'
+
+/**
+ * One column of a comparison: a checker, started from one of its builds
+ */
+export interface ComparisonEntry {
+  /**
+   * Unique within the comparison, and the key of the entry's results
+   */
+  key: string
+  label: string
+  checker: LSPCheckerDefinition
+  build?: CheckerBuild
+}
+
+/**
+ * Diagnostics by entry key
+ */
+export type ComparisonResults = Partial<Record<string, Diagnostic[]>>
+
+/**
+ * Compare every language server checker, each started from the given build
+ */
+export function checkerComparison(builds: Partial<Record<TypeChecker, CheckerBuild>>): ComparisonEntry[] {
+  return LSP_CHECKERS.map(checker => {
+    const build = builds[checker.id]
+    return {
+      key: checker.id,
+      label: build && build.id !== BUNDLED_BUILD ? `${checker.label} ${build.label}` : checker.label,
+      checker,
+      build
+    }
+  })
+}
+
+/**
+ * Compare builds of one checker
+ */
+export function buildComparison(checker: LSPCheckerDefinition, builds: CheckerBuild[]): ComparisonEntry[] {
+  return builds.map(build => ({
+    key: `${checker.id}@${build.id}`,
+    label: `${checker.label} ${build.label}`,
+    checker,
+    build
+  }))
+}
+
+export interface ComparisonSessionOptions {
+  entries: ComparisonEntry[]
+  pythonVersion: PythonVersion
+  /**
+   * Installed packages, with paths relative to site-packages
+   */
+  sitePackages: PlaygroundFile[]
+  /**
+   * Checker settings from the workspace's configuration files
+   */
+  settings: CheckerSettings
+  onDiagnostics: (key: string, diagnostics: Diagnostic[]) => void
+  onError?: (key: string, error: Error) => void
+}
+
+/**
+ * Keeps one headless language server per entry alive and feeds it the workspace
+ */
+export class ComparisonSession {
+  private sessions = new Map<string, HeadlessLSPSession>()
+  private files: PlaygroundFile[] | null = null
+  private closed = false
+  private options: ComparisonSessionOptions
+
+  constructor(options: ComparisonSessionOptions) {
+    this.options = options
+    options.entries.forEach(entry => this.start(entry))
+  }
+
+  /**
+   * Send the current workspace files to every checker
+   */
+  update(files: PlaygroundFile[]): void {
+    this.files = files
+    this.sessions.forEach(session => session.syncFiles(files))
+  }
+
+  /**
+   * Switch every checker to another Python version without restarting it
+   */
+  setPythonVersion(pythonVersion: PythonVersion): void {
+    if (pythonVersion === this.options.pythonVersion) return
+    this.options = { ...this.options, pythonVersion }
+    this.sessions.forEach(session => session.notify('workspace/didChangeConfiguration', pythonVersionParams(pythonVersion)))
+  }
+
+  /**
+   * Shut down every checker started by this session
+   */
+  close(): void {
+    this.closed = true
+    this.sessions.forEach(session => session.close())
+    this.sessions.clear()
+  }
+
+  private async start({ key, checker, build }: ComparisonEntry): Promise<void> {
+    const { pythonVersion, sitePackages, settings, onDiagnostics, onError } = this.options
+    let session: HeadlessLSPSession | null = null
+
+    try {
+      const transport = new TracedTransport(
+        await checker.createTransport({ pythonVersion, build, files: this.files ?? [], settings }),
+        `${key} (comparison)`
+      )
+      const byUri = new Map<string, Diagnostic[]>()
+
+      session = new HeadlessLSPSession(transport, {
+        initializationOptions: { pythonVersion, sitePackages } satisfies CheckerInitializationOptions,
+        onDiagnostics: (uri, diagnostics) => {
+          const path = uriToPath(uri)
+          if (path === null || this.closed) return
+          byUri.set(uri, diagnostics.map(diag => toAppDiagnostic(diag, checker.id, path)))
+          onDiagnostics(key, [...byUri.values()].flat())
+        }
+      })
+
+      if (this.closed) {
+        session.close()
+        return
+      }
+
+      await session.initialize()
+
+      if (this.closed) {
+        session.close()
+        return
+      }
+
+      if (checker.configurationParams) {
+        session.notify('workspace/didChangeConfiguration', checker.configurationParams(settings))
+      }
+
+      // The version may have changed while the server was starting
+      if (this.options.pythonVersion !== pythonVersion) {
+        session.notify('workspace/didChangeConfiguration', pythonVersionParams(this.options.pythonVersion))
+      }
+
+      this.sessions.set(key, session)
+      if (this.files !== null) {
+        session.syncFiles(this.files)
+      }
+    } catch (error) {
+      session?.close()
+      console.error(`[Comparison] Failed to start ${key}:`, error)
+      onError?.(key, error as Error)
+    }
+  }
+}
+
+export interface ComparisonRow {
+  key: string
+  path?: string
+  start?: DiagnosticRange
+  end?: DiagnosticRange
+  byEntry: Partial<Record<string, Diagnostic[]>>
+  /**
+   * 'agree' when every entry reports this exact range, 'line' when the
+   * entries that are missing here report something else on the same line,
+   * 'disagree' otherwise
+   */
+  status: 'agree' | 'line' | 'disagree'
+}
+
+function rangeKey(diag: Diagnostic): string {
+  if (!diag.start) return `${diag.path}:unknown`
+  const end = diag.end ?? diag.start
+  return `${diag.path}:${diag.start.line}:${diag.start.column}-${end.line}:${end.column}`
+}
+
+function lineKey(diag: { path?: string; start?: DiagnosticRange }): string {
+  return `${diag.path}:${diag.start?.line}`
+}
+
+/**
+ * Group diagnostics from several entries into rows keyed by file, line and range
+ */
+export function matchDiagnostics(results: ComparisonResults, keys: string[]): ComparisonRow[] {
+  const rows = new Map<string, ComparisonRow>()
+  const linesByEntry = new Map<string, Set<string>>()
+
+  for (const entry of keys) {
+    const lines = new Set<string>()
+    linesByEntry.set(entry, lines)
+
+    for (const diag of results[entry] ?? []) {
+      const key = rangeKey(diag)
+      let row = rows.get(key)
+      if (!row) {
+        row = { key, path: diag.path, start: diag.start, end: diag.end, byEntry: {}, status: 'disagree' }
+        rows.set(key, row)
+      }
+      const list = row.byEntry[entry] ?? []
+      list.push(diag)
+      row.byEntry[entry] = list
+      if (diag.start) lines.add(lineKey(diag))
+    }
+  }
+
+  for (const row of rows.values()) {
+    const missing = keys.filter(entry => !row.byEntry[entry])
+    if (missing.length === 0) {
+      row.status = 'agree'
+    } else if (row.start && missing.every(entry => linesByEntry.get(entry)?.has(lineKey(row)))) {
+      row.status = 'line'
+    }
+  }
+
+  return [...rows.values()].sort((a, b) => {
+    const byPath = (a.path ?? '').localeCompare(b.path ?? '')
+    if (byPath !== 0) return byPath
+    if (!a.start) return b.start ? 1 : 0
+    if (!b.start) return -1
+    return a.start.line - b.start.line || a.start.column - b.start.column
+  })
+}
@@ -0,0 +1,111 @@
+/**
+ * Diagnostics filtering
+ *
+ * The diagnostics panel can hide severities, search messages, sort by position and
+ * group diagnostics by rule code or by line. The filter is kept by the app rather
+ * than the panel, so it stays as it is across checks, checker switches and
+ * comparison mode.
+ */
+
+import type { Diagnostic } from '../App'
+
+export type Severity = Diagnostic['severity']
+
+export type DiagnosticsGrouping = 'none' | 'rule' | 'line'
+
+export type DiagnosticsSort = 'server' | 'position'
+
+export interface DiagnosticsFilter {
+  /**
+   * Severities to show
+   */
+  severities: Record<Severity, boolean>
+  /**
+   * Case-insensitive text to look for in messages and rule codes
+   */
+  search: string
+  groupBy: DiagnosticsGrouping
+  /**
+   * 'server' keeps the order the checker reported them in
+   */
+  sort: DiagnosticsSort
+}
+
+export interface DiagnosticGroup {
+  key: string
+  label: string
+  diagnostics: Diagnostic[]
+}
+
+export const SEVERITIES: Severity[] = ['error', 'warning', 'info']
+
+export const DEFAULT_DIAGNOSTICS_FILTER: DiagnosticsFilter = {
+  severities: { error: true, warning: true, info: true },
+  search: '',
+  groupBy: 'none',
+  sort: 'position'
+}
+
+/**
+ * Order diagnostics by file, then line and column. Diagnostics without a location
+ * come last.
+ */
+function comparePositions(a: Diagnostic, b: Diagnostic): number {
+  const byPath = (a.path ?? '').localeCompare(b.path ?? '')
+  if (byPath !== 0) return byPath
+  if (!a.start) return b.start ? 1 : 0
+  if (!b.start) return -1
+  return a.start.line - b.start.line || a.start.column - b.start.column
+}
+
+/**
+ * How many diagnostics there are of each severity
+ */
+export function countBySeverity(diagnostics: Diagnostic[]): Record<Severity, number> {
+  const counts: Record<Severity, number> = { error: 0, warning: 0, info: 0 }
+  diagnostics.forEach(diag => counts[diag.severity]++)
+  return counts
+}
+
+/**
+ * The diagnostics the filter shows, in the order it asks for
+ */
+export function filterDiagnostics(diagnostics: Diagnostic[], filter: DiagnosticsFilter): Diagnostic[] {
+  const search = filter.search.trim().toLowerCase()
+  const visible = diagnostics.filter(diag =>
+    filter.severities[diag.severity] &&
+    (!search || diag.message.toLowerCase().includes(search) || diag.code?.toLowerCase().includes(search))
+  )
+  return filter.sort === 'position' ? [...visible].sort(comparePositions) : visible
+}
+
+/**
+ * Group filtered diagnostics. Rule groups are ordered by size, largest first; line
+ * groups by position. Diagnostics keep their order within a group.
+ */
+export function groupDiagnostics(diagnostics: Diagnostic[], groupBy: DiagnosticsGrouping): DiagnosticGroup[] {
+  if (groupBy === 'none') {
+    return [{ key: 'all', label: '', diagnostics }]
+  }
+
+  const groups = new Map<string, DiagnosticGroup>()
+  for (const diag of diagnostics) {
+    const key = groupBy === 'rule'
+      ? diag.code ?? ''
+      : `${diag.path ?? ''}:${diag.start?.line ?? ''}`
+    const label = groupBy === 'rule'
+      ? diag.code ?? 'No rule code'
+      : diag.start ? `${diag.path ? `${diag.path}, ` : ''}line ${diag.start.line}` : 'Unknown location'
+    let group = groups.get(key)
+    if (!group) {
+      group = { key, label, diagnostics: [] }
+      groups.set(key, group)
+    }
+    group.diagnostics.push(diag)
+  }
+
+  const result = [...groups.values()]
+  return groupBy === 'rule'
+    ? result.sort((a, b) => b.diagnostics.length - a.diagnostics.length || a.label.localeCompare(b.label))
+    : result.sort((a, b) => comparePositions(a.diagnostics[0], b.diagnostics[0]))
+}
@@ -0,0 +1,657 @@
+/**
+ * Examples Gallery
+ *
+ * Typing scenarios to start from, grouped by topic. Each example is a single main.py
+ * with a few deliberate mistakes, marked with comments, so the checkers have
+ * something to report. Examples that use newer syntax or typing features record the
+ * oldest Python version they run on; loading one switches the playground to that
+ * version if an older one is selected.
+ */
+
+import type { PythonVersion } from '../App'
+
+export type ExampleCategory =
+  | 'generics'
+  | 'protocols'
+  | 'typeddict'
+  | 'paramspec'
+  | 'overloads'
+  | 'narrowing'
+  | 'dataclasses'
+  | 'async'
+
+export interface Example {
+  id: string
+  title: string
+  category: ExampleCategory
+  description: string
+  /**
+   * The oldest Python version the example runs on
+   */
+  minPythonVersion: PythonVersion
+  code: string
+}
+
+/**
+ * Every category, in the order the gallery lists them
+ */
+export const EXAMPLE_CATEGORIES: { id: ExampleCategory; label: string }[] = [
+  { id: 'generics', label: 'Generics & PEP 695' },
+  { id: 'protocols', label: 'Protocols' },
+  { id: 'typeddict', label: 'TypedDict' },
+  { id: 'paramspec', label: 'ParamSpec' },
+  { id: 'overloads', label: 'Overloads' },
+  { id: 'narrowing', label: 'Narrowing' },
+  { id: 'dataclasses', label: 'Dataclasses' },
+  { id: 'async', label: 'Async' }
+]
+
+export const EXAMPLES: Example[] = [
+  {
+    id: 'generic-functions-classes',
+    title: 'Generic functions and classes',
+    category: 'generics',
+    description: 'Type parameters declared inline with PEP 695 syntax, with bounds and constraints.',
+    minPythonVersion: '3.12',
+    code: `from collections.abc import Sequence
+
+
+def first[T](items: Sequence[T]) -> T:
+    return items[0]
+
+
+def longest[S: (str, bytes)](a: S, b: S) -> S:
+    return a if len(a) >= len(b) else b
+
+
+class Stack[T]:
+    def __init__(self) -> None:
+        self.items: list[T] = []
+
+    def push(self, item: T) -> None:
+        self.items.append(item)
+
+    def pop(self) -> T:
+        return self.items.pop()
+
+
+numbers = Stack[int]()
+numbers.push(1)
+reveal_type(numbers.pop())
+reveal_type(first(["a", "b"]))
+
+# Error: int is not a str
+numbers.push("two")
+
+# Error: str and bytes cannot be mixed
+longest("abc", b"de")
+`
+  },
+  {
+    id: 'type-aliases',
+    title: 'Type aliases and recursive types',
+    category: 'generics',
+    description: 'The type statement, generic aliases and a recursive JSON type.',
+    minPythonVersion: '3.12',
+    code: `type JSON = dict[str, JSON] | list[JSON] | str | int | float | bool | None
+type Pair[T] = tuple[T, T]
+
+
+def swap[T](pair: Pair[T]) -> Pair[T]:
+    return pair[1], pair[0]
+
+
+config: JSON = {"name": "demo", "tags": ["a", "b"], "nested": {"depth": 2}}
+reveal_type(swap((1, 2)))
+
+# Error: a set is not JSON
+invalid: JSON = {"ids": {1, 2, 3}}
+
+# Error: a pair of ints is not a pair of strs
+names: Pair[str] = swap((1, 2))
+`
+  },
+  {
+    id: 'type-parameter-defaults',
+    title: 'Type parameter defaults',
+    category: 'generics',
+    description: 'PEP 696 defaults for type parameters, used when a generic is not specialized.',
+    minPythonVersion: '3.13',
+    code: `class Box[T = int]:
+    def __init__(self, value: T) -> None:
+        self.value = value
+
+
+def unbox(box: Box) -> None:
+    # Box without arguments means Box[int]
+    reveal_type(box.value)
+
+
+reveal_type(Box("text").value)
+
+# Error: Box means Box[int], not Box[str]
+unbox(Box("text"))
+`
+  },
+  {
+    id: 'structural-subtyping',
+    title: 'Structural subtyping',
+    category: 'protocols',
+    description: 'Classes match a Protocol by shape, without inheriting from it.',
+    minPythonVersion: '3.9',
+    code: `from typing import Protocol
+
+
+class SupportsClose(Protocol):
+    def close(self) -> None: ...
+
+
+class File:
+    def close(self) -> None:
+        print("closed")
+
+
+class Socket:
+    def close(self, force: bool) -> None:
+        print("closed", force)
+
+
+def shutdown(resource: SupportsClose) -> None:
+    resource.close()
+
+
+shutdown(File())
+
+# Error: Socket.close takes an extra required argument
+shutdown(Socket())
+`
+  },
+  {
+    id: 'generic-protocols',
+    title: 'Generic and runtime-checkable protocols',
+    category: 'protocols',
+    description: 'Protocols with type parameters, protocol attributes and isinstance checks.',
+    minPythonVersion: '3.9',
+    code: `from typing import Protocol, TypeVar, runtime_checkable
+
+T_co = TypeVar("T_co", covariant=True)
+
+
+class Source(Protocol[T_co]):
+    def read(self) -> T_co: ...
+
+
+@runtime_checkable
+class Named(Protocol):
+    name: str
+
+
+class Config:
+    name = "config"
+
+    def read(self) -> dict[str, str]:
+        return {"mode": "debug"}
+
+
+def load(source: Source[dict[str, str]]) -> dict[str, str]:
+    return source.read()
+
+
+def describe(value: object) -> str:
+    if isinstance(value, Named):
+        return value.name
+    return repr(value)
+
+
+load(Config())
+
+# Error: Config.read returns a dict, not a list
+items: list[str] = load(Config())
+`
+  },
+  {
+    id: 'typeddict-basics',
+    title: 'Required and optional keys',
+    category: 'typeddict',
+    description: 'TypedDict with total=False, Required and NotRequired.',
+    minPythonVersion: '3.11',
+    code: `from typing import NotRequired, Required, TypedDict
+
+
+class Movie(TypedDict):
+    title: str
+    year: int
+    rating: NotRequired[float]
+
+
+class Options(TypedDict, total=False):
+    verbose: bool
+    output: Required[str]
+
+
+movie: Movie = {"title": "Blade Runner", "year": 1982}
+options: Options = {"output": "out.txt"}
+
+# Error: missing the "year" key
+sequel: Movie = {"title": "Blade Runner 2049"}
+
+# Error: "rating" may be missing
+print(movie["rating"] + 1)
+
+# Error: "director" is not a key of Movie
+movie["director"] = "Ridley Scott"
+`
+  },
+  {
+    id: 'typeddict-readonly-unpack',
+    title: 'ReadOnly items and **kwargs',
+    category: 'typeddict',
+    description: 'PEP 705 read-only items, and typing **kwargs with Unpack.',
+    minPythonVersion: '3.13',
+    code: `from typing import ReadOnly, TypedDict, Unpack
+
+
+class User(TypedDict):
+    id: ReadOnly[int]
+    name: str
+
+
+class RequestOptions(TypedDict, total=False):
+    timeout: float
+    retries: int
+
+
+def fetch(url: str, **options: Unpack[RequestOptions]) -> None:
+    reveal_type(options)
+
+
+user: User = {"id": 1, "name": "Ada"}
+user["name"] = "Grace"
+fetch("https://example.com", timeout=2.5)
+
+# Error: "id" is read-only
+user["id"] = 2
+
+# Error: retries must be an int
+fetch("https://example.com", retries="3")
+`
+  },
+  {
+    id: 'paramspec-decorators',
+    title: 'Signature-preserving decorators',
+    category: 'paramspec',
+    description: 'ParamSpec keeps the parameters of a decorated function.',
+    minPythonVersion: '3.10',
+    code: `import time
+from collections.abc import Callable
+from typing import ParamSpec, TypeVar
+
+P = ParamSpec("P")
+R = TypeVar("R")
+
+
+def timed(func: Callable[P, R]) -> Callable[P, R]:
+    def wrapper(*args: P.args, **kwargs: P.kwargs) -> R:
+        start = time.perf_counter()
+        try:
+            return func(*args, **kwargs)
+        finally:
+            print(f"{func.__name__} took {time.perf_counter() - start:.3f}s")
+
+    return wrapper
+
+
+@timed
+def resize(width: int, height: int, *, keep_ratio: bool = True) -> tuple[int, int]:
+    return width, height
+
+
+reveal_type(resize)
+resize(640, 480, keep_ratio=False)
+
+# Error: height is missing
+resize(640)
+
+# Error: keep_ratio is keyword-only
+resize(640, 480, False)
+`
+  },
+  {
+    id: 'paramspec-concatenate',
+    title: 'Adding parameters with Concatenate',
+    category: 'paramspec',
+    description: 'A decorator that supplies the first argument of the functions it wraps.',
+    minPythonVersion: '3.10',
+    code: `from collections.abc import Callable
+from typing import Concatenate, ParamSpec, TypeVar
+
+P = ParamSpec("P")
+R = TypeVar("R")
+
+
+class Connection:
+    def execute(self, query: str) -> list[tuple[object, ...]]:
+        return []
+
+
+def with_connection(func: Callable[Concatenate[Connection, P], R]) -> Callable[P, R]:
+    def wrapper(*args: P.args, **kwargs: P.kwargs) -> R:
+        return func(Connection(), *args, **kwargs)
+
+    return wrapper
+
+
+@with_connection
+def count_users(conn: Connection, active: bool) -> int:
+    return len(conn.execute(f"SELECT * FROM users WHERE active = {active}"))
+
+
+count_users(True)
+
+# Error: the connection is supplied by the decorator
+count_users(Connection(), True)
+`
+  },
+  {
+    id: 'overloaded-functions',
+    title: 'Overloaded functions',
+    category: 'overloads',
+    description: 'A return type that depends on the argument types, with Literal flags.',
+    minPythonVersion: '3.9',
+    code: `from typing import Literal, Union, overload
+
+
+@overload
+def read(path: str, binary: Literal[True]) -> bytes: ...
+@overload
+def read(path: str, binary: Literal[False] = ...) -> str: ...
+def read(path: str, binary: bool = False) -> Union[str, bytes]:
+    with open(path, "rb" if binary else "r") as f:
+        return f.read()
+
+
+reveal_type(read("notes.txt"))
+reveal_type(read("image.png", binary=True))
+
+# Error: bytes has no upper()
+read("image.png", True).upper()
+
+
+@overload
+def parse(value: int) -> int: ...
+@overload
+def parse(value: str) -> str: ...
+def parse(value: Union[int, str]) -> Union[int, str]:
+    return value
+
+
+# Error: no overload accepts a float
+parse(1.5)
+`
+  },
+  {
+    id: 'overloaded-methods',
+    title: 'Overloaded methods',
+    category: 'overloads',
+    description: 'Indexing by int or slice, the way list and str do it.',
+    minPythonVersion: '3.10',
+    code: `from collections.abc import Sequence
+from typing import overload
+
+
+class Playlist(Sequence[str]):
+    def __init__(self, songs: list[str]) -> None:
+        self.songs = songs
+
+    @overload
+    def __getitem__(self, index: int) -> str: ...
+    @overload
+    def __getitem__(self, index: slice) -> "Playlist": ...
+    def __getitem__(self, index: int | slice) -> "str | Playlist":
+        if isinstance(index, slice):
+            return Playlist(self.songs[index])
+        return self.songs[index]
+
+    def __len__(self) -> int:
+        return len(self.songs)
+
+
+playlist = Playlist(["Intro", "Theme", "Outro"])
+reveal_type(playlist[0])
+reveal_type(playlist[1:])
+
+# Error: a str has no songs
+playlist[0].songs
+
+# Error: the key must be an int or a slice
+playlist["Intro"]
+`
+  },
+  {
+    id: 'narrowing-basics',
+    title: 'isinstance, None and literal checks',
+    category: 'narrowing',
+    description: 'How checks on values narrow unions, including match statements.',
+    minPythonVersion: '3.10',
+    code: `from typing import Literal
+
+
+def describe(value: int | str | list[int] | None) -> str:
+    if value is None:
+        return "nothing"
+    if isinstance(value, int):
+        return f"number {value + 1}"
+    if isinstance(value, str):
+        return value.upper()
+    reveal_type(value)
+    return f"{len(value)} numbers"
+
+
+def command(action: Literal["start", "stop"], delay: float | None) -> None:
+    match action:
+        case "start":
+            reveal_type(action)
+        case "stop":
+            reveal_type(action)
+
+    # Error: delay may be None
+    print(delay * 2)
+`
+  },
+  {
+    id: 'type-guards',
+    title: 'TypeIs and TypeGuard',
+    category: 'narrowing',
+    description: 'User-defined narrowing functions and the difference between the two.',
+    minPythonVersion: '3.13',
+    code: `from typing import Any, TypeGuard, TypeIs
+
+
+def is_str_list(values: list[Any]) -> TypeGuard[list[str]]:
+    return all(isinstance(value, str) for value in values)
+
+
+def is_int(value: object) -> TypeIs[int]:
+    return isinstance(value, int)
+
+
+def handle(values: list[Any], value: int | str) -> None:
+    if is_str_list(values):
+        reveal_type(values)
+
+    if is_int(value):
+        reveal_type(value)
+    else:
+        # TypeIs also narrows the negative branch
+        reveal_type(value)
+        # Error: value is a str here
+        value + 1
+`
+  },
+  {
+    id: 'exhaustiveness',
+    title: 'Exhaustiveness checking',
+    category: 'narrowing',
+    description: 'assert_never reports the cases a match or if chain forgot.',
+    minPythonVersion: '3.11',
+    code: `from enum import Enum
+from typing import assert_never
+
+
+class Shape(Enum):
+    CIRCLE = "circle"
+    SQUARE = "square"
+    TRIANGLE = "triangle"
+
+
+def corners(shape: Shape) -> int:
+    match shape:
+        case Shape.CIRCLE:
+            return 0
+        case Shape.SQUARE:
+            return 4
+        case _:
+            # Error: Shape.TRIANGLE is not handled
+            assert_never(shape)
+`
+  },
+  {
+    id: 'dataclass-basics',
+    title: 'Dataclass fields and options',
+    category: 'dataclasses',
+    description: 'Field defaults, frozen instances, keyword-only fields and slots.',
+    minPythonVersion: '3.10',
+    code: `from dataclasses import dataclass, field
+
+
+@dataclass(frozen=True)
+class Point:
+    x: float
+    y: float
+
+
+@dataclass(kw_only=True, slots=True)
+class Order:
+    id: int
+    items: list[str] = field(default_factory=list)
+    note: str | None = None
+
+
+origin = Point(0, 0)
+order = Order(id=1, items=["book"])
+
+# Error: Point is frozen
+origin.x = 1
+
+# Error: the fields are keyword-only
+Order(2, ["pen"])
+
+# Error: a field without a default follows one with a default
+@dataclass
+class Invalid:
+    name: str = "unnamed"
+    size: int
+`
+  },
+  {
+    id: 'dataclass-transform',
+    title: 'Dataclass-like libraries',
+    category: 'dataclasses',
+    description: 'dataclass_transform lets a decorator or base class behave like dataclass.',
+    minPythonVersion: '3.11',
+    code: `from typing import Any, dataclass_transform
+
+
+@dataclass_transform(kw_only_default=True)
+class Model:
+    def __init_subclass__(cls, **kwargs: Any) -> None:
+        super().__init_subclass__(**kwargs)
+
+
+class User(Model):
+    name: str
+    age: int = 0
+
+
+user = User(name="Ada", age=36)
+reveal_type(user.name)
+
+# Error: fields are keyword-only by default
+User("Ada")
+
+# Error: age must be an int
+User(name="Grace", age="unknown")
+`
+  },
+  {
+    id: 'async-basics',
+    title: 'Coroutines and awaitables',
+    category: 'async',
+    description: 'Async functions, gather and the common mistake of not awaiting.',
+    minPythonVersion: '3.9',
+    code: `import asyncio
+
+
+async def fetch(url: str) -> bytes:
+    await asyncio.sleep(0.1)
+    return url.encode()
+
+
+async def main() -> None:
+    page = await fetch("https://example.com")
+    reveal_type(page)
+
+    pages = await asyncio.gather(fetch("a"), fetch("b"))
+    reveal_type(pages)
+
+    # Error: fetch() returns a coroutine that must be awaited
+    data: bytes = fetch("https://example.com")
+
+
+asyncio.run(main())
+`
+  },
+  {
+    id: 'async-iteration',
+    title: 'Async generators and context managers',
+    category: 'async',
+    description: 'async for, async with and TaskGroup.',
+    minPythonVersion: '3.11',
+    code: `import asyncio
+from collections.abc import AsyncIterator
+from contextlib import asynccontextmanager
+
+
+async def ticks(count: int) -> AsyncIterator[int]:
+    for tick in range(count):
+        await asyncio.sleep(0)
+        yield tick
+
+
+@asynccontextmanager
+async def session(name: str) -> AsyncIterator[str]:
+    print("open", name)
+    yield name
+    print("close", name)
+
+
+async def main() -> None:
+    async with session("db") as name:
+        reveal_type(name)
+
+    async for tick in ticks(3):
+        reveal_type(tick)
+
+    async with asyncio.TaskGroup() as group:
+        task = group.create_task(asyncio.sleep(1, result="done"))
+    reveal_type(task.result())
+
+    # Error: an async iterator needs async for
+    for tick in ticks(3):
+        print(tick)
+
+
+asyncio.run(main())
+`
+  }
+]
@@ -0,0 +1,203 @@
+/**
+ * HeadlessLSPSession drives a language server over a Transport without an editor.
+ *
+ * The editor-facing LSPClient from @codemirror/lsp-client only opens documents that
+ * have an attached EditorView. Comparison mode needs to run several servers on the
+ * same buffer at once, so this session speaks just enough JSON-RPC to initialize a
+ * server, keep a document in sync and collect its published diagnostics.
+ */
+
+import type { Transport } from './WebWorkerTransport'
+import type { LSPDiagnostic } from './diagnostics'
+import { isPythonFile, pathToUri, type PlaygroundFile } from '../workspaceFiles'
+
+export interface ClosableTransport extends Transport {
+  close(): void
+}
+
+export interface HeadlessLSPSessionOptions {
+  /**
+   * Root URI reported to the server in the initialize request
+   */
+  rootUri?: string
+
+  /**
+   * Initialization options passed to the server
+   */
+  initializationOptions?: Record<string, unknown>
+
+  /**
+   * Called whenever the server publishes diagnostics for a document
+   */
+  onDiagnostics?: (uri: string, diagnostics: LSPDiagnostic[]) => void
+
+  /**
+   * Request timeout in milliseconds
+   */
+  timeout?: number
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+export class HeadlessLSPSession {
+  private transport: ClosableTransport
+  private options: HeadlessLSPSessionOptions
+  private nextId = 0
+  private pending = new Map<number, PendingRequest>()
+  private documents = new Map<string, { version: number; text: string }>()
+  private closed = false
+  private handleMessage = (message: string) => this.receive(message)
+
+  constructor(transport: ClosableTransport, options: HeadlessLSPSessionOptions = {}) {
+    this.transport = transport
+    this.options = options
+    this.transport.subscribe(this.handleMessage)
+  }
+
+  /**
+   * Run the initialize/initialized handshake
+   */
+  async initialize(): Promise<void> {
+    await this.request('initialize', {
+      processId: null,
+      clientInfo: { name: 'omni-python-playground-headless' },
+      rootUri: this.options.rootUri ?? 'file:///workspace',
+      initializationOptions: this.options.initializationOptions,
+      capabilities: {
+        textDocument: {
+          synchronization: { didSave: false },
+          publishDiagnostics: { relatedInformation: true }
+        }
+      }
+    })
+    this.notify('initialized', {})
+  }
+
+  /**
+   * Open a document, or replace its full contents if it is already open and changed
+   */
+  syncDocument(uri: string, text: string): void {
+    const document = this.documents.get(uri)
+    if (!document) {
+      this.documents.set(uri, { version: 0, text })
+      this.notify('textDocument/didOpen', {
+        textDocument: { uri, languageId: 'python', version: 0, text }
+      })
+    } else if (document.text !== text) {
+      const version = document.version + 1
+      this.documents.set(uri, { version, text })
+      this.notify('textDocument/didChange', {
+        textDocument: { uri, version },
+        contentChanges: [{ text }]
+      })
+    }
+  }
+
+  /**
+   * Make the open documents match the workspace's Python files: open new files,
+   * update changed ones and close removed ones
+   */
+  syncFiles(files: PlaygroundFile[]): void {
+    const pythonFiles = files.filter(file => isPythonFile(file.path))
+    const uris = new Set(pythonFiles.map(file => pathToUri(file.path)))
+    this.openDocuments
+      .filter(uri => !uris.has(uri))
+      .forEach(uri => this.closeDocument(uri))
+    pythonFiles.forEach(file => this.syncDocument(pathToUri(file.path), file.content))
+  }
+
+  /**
+   * Close a previously opened document
+   */
+  closeDocument(uri: string): void {
+    if (this.documents.delete(uri)) {
+      this.notify('textDocument/didClose', { textDocument: { uri } })
+    }
+  }
+
+  /**
+   * URIs of the documents currently open in this session
+   */
+  get openDocuments(): string[] {
+    return [...this.documents.keys()]
+  }
+
+  /**
+   * Send a request and wait for its response
+   */
+  request(method: string, params: unknown): Promise<unknown> {
+    const id = this.nextId++
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new Error(`Request ${method} timed out`))
+      }, this.options.timeout ?? 30000)
+      this.pending.set(id, { resolve, reject, timer })
+      this.send({ jsonrpc: '2.0', id, method, params })
+    })
+  }
+
+  /**
+   * Send a notification
+   */
+  notify(method: string, params: unknown): void {
+    this.send({ jsonrpc: '2.0', method, params })
+  }
+
+  /**
+   * Close the session and the underlying transport
+   */
+  close(): void {
+    if (this.closed) return
+
+    this.closed = true
+    this.pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer)
+      reject(new Error('Session closed'))
+    })
+    this.pending.clear()
+    this.transport.unsubscribe(this.handleMessage)
+    this.transport.close()
+  }
+
+  private send(message: unknown): void {
+    if (this.closed) return
+    this.transport.send(JSON.stringify(message))
+  }
+
+  private receive(message: string): void {
+    let data
+    try {
+      data = JSON.parse(message)
+    } catch (e) {
+      console.error('[Headless LSP] Failed to parse message', e)
+      return
+    }
+
+    if ('id' in data && !('method' in data)) {
+      // Response to one of our requests
+      const request = this.pending.get(data.id)
+      if (!request) return
+      clearTimeout(request.timer)
+      this.pending.delete(data.id)
+      if (data.error) {
+        request.reject(new Error(data.error.message))
+      } else {
+        request.resolve(data.result)
+      }
+    } else if ('id' in data) {
+      // Server-to-client request: answer workspace/configuration with empty settings
+      // and acknowledge everything else so the server does not stall
+      const result = data.method === 'workspace/configuration'
+        ? (data.params?.items ?? []).map(() => null)
+        : null
+      this.send({ jsonrpc: '2.0', id: data.id, result })
+    } else if (data.method === 'textDocument/publishDiagnostics' && data.params) {
+      this.options.onDiagnostics?.(data.params.uri, data.params.diagnostics)
+    }
+  }
+}
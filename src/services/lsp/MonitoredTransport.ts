@@ -0,0 +1,122 @@
+/**
+ * MonitoredTransport watches a language server for signs that it has died: errors
+ * reported by its worker, sends that fail and requests it stops answering. On the
+ * first one it calls onFailure with the reason, so the caller can restart the server.
+ */
+
+import type { ClosableTransport } from './HeadlessLSPSession'
+
+export interface MonitoredTransportOptions {
+  /**
+   * How long a request may go unanswered before the server counts as unresponsive,
+   * in milliseconds
+   */
+  responseTimeout: number
+
+  /**
+   * Called once, when the server is found to have crashed or hung
+   */
+  onFailure: (reason: string) => void
+}
+
+interface JSONRPCMessage {
+  id?: number | string
+  method?: string
+}
+
+interface PendingRequest {
+  method: string
+  sentAt: number
+}
+
+// How often to look for requests that have gone unanswered for too long
+const WATCHDOG_INTERVAL = 1000
+
+function parse(message: string): JSONRPCMessage | null {
+  try {
+    return JSON.parse(message) as JSONRPCMessage
+  } catch {
+    return null
+  }
+}
+
+export class MonitoredTransport implements ClosableTransport {
+  private transport: ClosableTransport
+  private options: MonitoredTransportOptions
+  private pending = new Map<number | string, PendingRequest>()
+  private watchdog: ReturnType<typeof setInterval>
+  private failed = false
+  private handleMessage = (message: string) => this.receive(message)
+
+  constructor(transport: ClosableTransport, options: MonitoredTransportOptions) {
+    this.transport = transport
+    this.options = options
+    this.transport.subscribe(this.handleMessage)
+    this.watchdog = setInterval(() => this.checkPending(), WATCHDOG_INTERVAL)
+  }
+
+  send(message: string): void {
+    // Messages sent while the server is being restarted are dropped; documents are
+    // replayed to the new server once it is up
+    if (this.failed) return
+
+    const parsed = parse(message)
+    if (parsed?.method && parsed.id !== undefined) {
+      this.pending.set(parsed.id, { method: parsed.method, sentAt: Date.now() })
+    }
+
+    try {
+      this.transport.send(message)
+    } catch (error) {
+      this.fail(`Failed to send ${parsed?.method ?? 'a message'}: ${error}`)
+    }
+  }
+
+  subscribe(handler: (message: string) => void): void {
+    this.transport.subscribe(handler)
+  }
+
+  unsubscribe(handler: (message: string) => void): void {
+    this.transport.unsubscribe(handler)
+  }
+
+  /**
+   * Report that the server has crashed, e.g. from its worker's error handler
+   */
+  fail(reason: string): void {
+    if (this.failed) return
+    this.failed = true
+    clearInterval(this.watchdog)
+    this.pending.clear()
+    this.options.onFailure(reason)
+  }
+
+  /**
+   * Stop monitoring and close the underlying transport
+   */
+  close(): void {
+    this.failed = true
+    clearInterval(this.watchdog)
+    this.pending.clear()
+    this.transport.unsubscribe(this.handleMessage)
+    this.transport.close()
+  }
+
+  private receive(message: string): void {
+    const parsed = parse(message)
+    // Responses carry the request's id but no method
+    if (parsed && parsed.id !== undefined && !parsed.method) {
+      this.pending.delete(parsed.id)
+    }
+  }
+
+  private checkPending(): void {
+    const now = Date.now()
+    for (const request of this.pending.values()) {
+      if (now - request.sentAt > this.options.responseTimeout) {
+        this.fail(`No response to ${request.method} within ${this.options.responseTimeout / 1000} seconds`)
+        return
+      }
+    }
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * PlaygroundWorkspace is a @codemirror/lsp-client Workspace that keeps every file of
+ * the virtual workspace open on the language server, not just the file shown in the
+ * editor. That way cross-module imports resolve even for files without a view.
+ *
+ * The editor attaches and detaches its view as the active tab changes; the app pushes
+ * the full file list through setFiles() whenever files are created, renamed or deleted.
+ * When the client reconnects to a restarted server, every file is opened on it again.
+ */
+
+import { Workspace, LSPPlugin, type WorkspaceFile } from '@codemirror/lsp-client'
+import { ChangeSet, Text, type TransactionSpec } from '@codemirror/state'
+import type { EditorView } from '@codemirror/view'
+import { isPythonFile, pathToUri, uriToPath, type PlaygroundFile } from '../workspaceFiles'
+
+interface WorkspaceFileUpdate {
+  file: WorkspaceFile
+  prevDoc: Text
+  changes: ChangeSet
+}
+
+class PlaygroundWorkspaceFile implements WorkspaceFile {
+  uri: string
+  languageId: string
+  version: number
+  doc: Text
+  view: EditorView | null
+
+  constructor(uri: string, languageId: string, version: number, doc: Text, view: EditorView | null) {
+    this.uri = uri
+    this.languageId = languageId
+    this.version = version
+    this.doc = doc
+    this.view = view
+  }
+
+  getView(): EditorView | null {
+    return this.view
+  }
+}
+
+export class PlaygroundWorkspace extends Workspace {
+  files: PlaygroundWorkspaceFile[] = []
+
+  private displayFileHandler: ((uri: string) => void) | null = null
+  private fileEditHandler: ((uri: string, content: string) => void) | null = null
+  private viewWaiters = new Map<string, (view: EditorView) => void>()
+
+  syncFiles(): readonly WorkspaceFileUpdate[] {
+    const result: WorkspaceFileUpdate[] = []
+    for (const file of this.files) {
+      if (!file.view) continue
+      const plugin = LSPPlugin.get(file.view)
+      if (!plugin) continue
+      const changes = plugin.unsyncedChanges
+      if (!changes.empty) {
+        result.push({ changes, file, prevDoc: file.doc })
+        file.doc = file.view.state.doc
+        file.version++
+        plugin.clear()
+      }
+    }
+    return result
+  }
+
+  connected(): void {
+    // The servers ignore documents opened before they are initialized
+    this.client.initializing.then(
+      () => this.files.forEach(file => this.client.didOpen(file)),
+      () => {}
+    )
+  }
+
+  openFile(uri: string, languageId: string, view: EditorView): void {
+    const file = this.getFile(uri) as PlaygroundWorkspaceFile | null
+    if (file) {
+      file.view = view
+      if (!file.doc.eq(view.state.doc)) {
+        this.replaceContent(file, view.state.doc)
+      }
+    } else {
+      const newFile = new PlaygroundWorkspaceFile(uri, languageId, 0, view.state.doc, view)
+      this.files.push(newFile)
+      this.client.didOpen(newFile)
+    }
+
+    const waiter = this.viewWaiters.get(uri)
+    if (waiter) {
+      this.viewWaiters.delete(uri)
+      waiter(view)
+    }
+  }
+
+  closeFile(uri: string, view: EditorView): void {
+    // Keep the document open on the server so other modules can still import it
+    const file = this.getFile(uri) as PlaygroundWorkspaceFile | null
+    if (file && file.view === view) {
+      file.view = null
+    }
+  }
+
+  displayFile(uri: string): Promise<EditorView | null> {
+    const file = this.getFile(uri) as PlaygroundWorkspaceFile | null
+    if (!file) return Promise.resolve(null)
+    if (file.view) return Promise.resolve(file.view)
+    if (!this.displayFileHandler) return Promise.resolve(null)
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.viewWaiters.delete(uri)
+        resolve(null)
+      }, 2000)
+      this.viewWaiters.set(uri, view => {
+        clearTimeout(timer)
+        resolve(view)
+      })
+      this.displayFileHandler!(uri)
+    })
+  }
+
+  updateFile(uri: string, update: TransactionSpec): void {
+    const file = this.getFile(uri) as PlaygroundWorkspaceFile | null
+    if (!file) return
+
+    if (file.view) {
+      file.view.dispatch(update)
+      return
+    }
+
+    // No editor shows this file: edit the stored document and tell the server and the app
+    const doc = ChangeSet.of(update.changes ?? [], file.doc.length).apply(file.doc)
+    this.replaceContent(file, doc)
+    this.fileEditHandler?.(uri, doc.toString())
+  }
+
+  /**
+   * Set the handler called when a server-initiated edit (e.g. a rename or code
+   * action) changes a file that has no editor. It should store the new content.
+   */
+  setFileEditHandler(handler: ((uri: string, content: string) => void) | null): void {
+    this.fileEditHandler = handler
+  }
+
+  /**
+   * Set the handler called when the client wants to show a file that has no
+   * editor, e.g. when jumping to a definition in another module. It should make
+   * the file the active tab.
+   */
+  setDisplayFileHandler(handler: ((uri: string) => void) | null): void {
+    this.displayFileHandler = handler
+  }
+
+  /**
+   * The files open on the server, as last synced to it
+   */
+  playgroundFiles(): PlaygroundFile[] {
+    return this.files.flatMap(file => {
+      const path = uriToPath(file.uri)
+      return path === null ? [] : [{ path, content: file.doc.toString() }]
+    })
+  }
+
+  /**
+   * Reconcile the server's open documents with the app's Python files.
+   * Files with an attached view are kept in sync by the editor plugin instead.
+   */
+  setFiles(playgroundFiles: PlaygroundFile[]): void {
+    const wanted = new Map(
+      playgroundFiles
+        .filter(file => isPythonFile(file.path))
+        .map(file => [pathToUri(file.path), file.content])
+    )
+
+    for (const file of [...this.files]) {
+      if (!wanted.has(file.uri)) {
+        this.files = this.files.filter(f => f !== file)
+        this.client.didClose(file.uri)
+      }
+    }
+
+    for (const [uri, content] of wanted) {
+      const file = this.getFile(uri) as PlaygroundWorkspaceFile | null
+      if (!file) {
+        const newFile = new PlaygroundWorkspaceFile(uri, 'python', 0, Text.of(content.split('\n')), null)
+        this.files.push(newFile)
+        this.client.didOpen(newFile)
+      } else if (!file.view && file.doc.toString() !== content) {
+        this.replaceContent(file, Text.of(content.split('\n')))
+      }
+    }
+  }
+
+  /**
+   * Send the full new contents of a file the editor plugin is not tracking
+   */
+  private replaceContent(file: PlaygroundWorkspaceFile, doc: Text): void {
+    file.doc = doc
+    file.version++
+    this.client.notification('textDocument/didChange', {
+      textDocument: { uri: file.uri, version: file.version },
+      contentChanges: [{ text: doc.toString() }]
+    })
+  }
+}
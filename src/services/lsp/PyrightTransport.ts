@@ -0,0 +1,33 @@
+/**
+ * PyrightTransport connects @codemirror/lsp-client to Pyright running in a Web Worker
+ * from the @typefox/pyright-browser package.
+ *
+ * Unlike basedpyright, this worker spawns its background workers itself, so only the
+ * foreground worker is created here. The worker ships without stubs, so it is given the
+ * typeshed snapshot of the matching pyright release (see scripts/bundle-pyright-typeshed.mjs)
+ * rather than the newer one basedpyright uses.
+ */
+
+// Import the worker script URL from the package
+import pyrightWorkerUrl from '@typefox/pyright-browser/dist/pyright.worker.js?url'
+
+import { PyrightWorkerTransport, type PyrightWorkerTransportOptions } from './PyrightWorkerTransport'
+
+export type PyrightTransportOptions = PyrightWorkerTransportOptions
+
+export class PyrightTransport extends PyrightWorkerTransport {
+  constructor(options: PyrightTransportOptions) {
+    super({
+      name: 'Pyright',
+      workerUrl: pyrightWorkerUrl,
+      // Code-split, so the stubs are only downloaded when Pyright is started
+      loadTypeshed: () => import('./pyrightTypeshed.json').then(module => module.default),
+      settings: {
+        // Pyright's own default, so results match the pyright CLI
+        typeCheckingMode: 'basic',
+        reportMissingModuleSource: false
+      },
+      pythonVersionSwitch: 'rewrite'
+    }, options)
+  }
+}
@@ -0,0 +1,394 @@
+/**
+ * PyrightWorkerTransport implements the Transport interface for @codemirror/lsp-client
+ * to communicate with a browser build of Pyright (or a fork of it) running in a Web Worker.
+ *
+ * The Pyright browser workers use a special boot protocol:
+ * 1. Create a foreground worker from the worker script
+ * 2. Send { type: "browser/boot", mode: "foreground" } to boot it
+ * 3. Worker may request background workers via "browser/newWorker" messages
+ * 4. After boot, the worker speaks standard LSP JSON-RPC
+ *
+ * The workers have no filesystem of their own, so the transport seeds the workspace
+ * files, a typeshed bundle and a pyrightconfig.json through the initialize request.
+ * Installed packages, which the client sends as initializationOptions.sitePackages,
+ * are seeded into a virtual environment that pyrightconfig.json points the server at.
+ * The typeshed bundle is loaded when the transport is created, so it is only
+ * downloaded once the checker is actually started.
+ * A later workspace/didChangeConfiguration carrying python.pythonVersion switches the
+ * running server to that version (see PyrightWorkerConfig.pythonVersionSwitch).
+ */
+
+import type { PythonVersion } from '../../App'
+import { PYTHON_VERSIONS } from '../../constants'
+import type { CheckerInitializationOptions } from '../checkers'
+import { isPythonFile, SITE_PACKAGES_DIR, VIRTUAL_ENV_DIR, type PlaygroundFile } from '../workspaceFiles'
+
+export interface Transport {
+  send(message: string): void
+  subscribe(handler: (message: string) => void): void
+  unsubscribe(handler: (message: string) => void): void
+}
+
+export interface PyrightWorkerTransportOptions {
+  /**
+   * Python version for configuration
+   */
+  pythonVersion?: PythonVersion
+
+  /**
+   * Workspace files to seed into the virtual filesystem, so that modules
+   * which are imported before they are opened can still be resolved
+   */
+  files?: PlaygroundFile[]
+
+  /**
+   * Settings from the workspace's pyrightconfig.json or [tool.pyright], applied
+   * on top of the checker's defaults
+   */
+  settings?: Record<string, unknown> | null
+
+  /**
+   * URL of the worker script of another build of the checker, used in place of the
+   * packaged one
+   */
+  workerUrl?: string
+
+  /**
+   * Optional error handler for worker errors
+   */
+  onError?: (error: ErrorEvent | Error) => void
+
+  /**
+   * Optional handler for when the worker terminates
+   */
+  onClose?: () => void
+}
+
+/**
+ * What distinguishes one Pyright-based checker from another
+ */
+export interface PyrightWorkerConfig {
+  /**
+   * Display name, used for worker names and log messages
+   */
+  name: string
+
+  /**
+   * URL of the packaged worker script
+   */
+  workerUrl: string
+
+  /**
+   * Load the typeshed files, keyed by absolute path (e.g. /typeshed/stdlib/builtins.pyi).
+   * Bundles are large, so this should import them dynamically to keep them out of the
+   * main bundle.
+   */
+  loadTypeshed: () => Promise<Record<string, string>>
+
+  /**
+   * Default settings written to pyrightconfig.json, which workspace settings override
+   */
+  settings: Record<string, unknown>
+
+  /**
+   * How a Python version change reaches the running server. 'rewrite' replaces
+   * pyrightconfig.json through the worker's pyright/createFile notification. 'select'
+   * points the server at one of the per-version config files seeded on startup, for
+   * workers whose pyright/createFile can only create empty files.
+   */
+  pythonVersionSwitch: 'rewrite' | 'select'
+}
+
+interface LSPMessage {
+  jsonrpc: string
+  id?: number | string
+  method?: string
+  params?: Record<string, unknown>
+  result?: unknown
+  error?: unknown
+}
+
+interface ConfigurationSettings {
+  python?: { pythonVersion?: PythonVersion }
+  [section: string]: unknown
+}
+
+/**
+ * Where the config file for a Python version is seeded when the checker switches
+ * versions by selecting a config file. It sits at the workspace root, which Pyright
+ * takes as the project root of a config file passed to it.
+ */
+function versionConfigPath(pythonVersion: PythonVersion): string {
+  return `/workspace/pyrightconfig.${pythonVersion}.json`
+}
+
+export class PyrightWorkerTransport implements Transport {
+  private foregroundWorker: Worker | null = null
+  private backgroundWorkers: Worker[] = []
+  private handlers: Set<(message: string) => void> = new Set()
+  private closed = false
+  private _ready: Promise<void>
+  private _resolveReady!: () => void
+  private _rejectReady!: (error: Error) => void
+  private typeshedFiles: Record<string, string> = {}
+  private hasSitePackages = false
+  private config: PyrightWorkerConfig
+  private options: PyrightWorkerTransportOptions
+
+  constructor(config: PyrightWorkerConfig, options: PyrightWorkerTransportOptions) {
+    this.config = config
+    this.options = options
+
+    // Create a promise that resolves when the worker is booted and the stubs are loaded
+    const booted = new Promise<void>((resolve, reject) => {
+      this._resolveReady = resolve
+      this._rejectReady = reject
+    })
+    const typeshedLoaded = config.loadTypeshed().then(files => {
+      this.typeshedFiles = files
+    })
+    this._ready = Promise.all([booted, typeshedLoaded]).then(() => undefined)
+
+    this.initializeWorker()
+  }
+
+  /**
+   * Promise that resolves when the transport is ready. The initialize request must
+   * not be sent before, as it carries the typeshed files.
+   */
+  get ready(): Promise<void> {
+    return this._ready
+  }
+
+  private initializeWorker(): void {
+    try {
+      // Create the foreground worker from the local package
+      this.foregroundWorker = new Worker(this.options.workerUrl ?? this.config.workerUrl, {
+        name: `${this.config.name}-foreground`,
+        type: 'classic'
+      })
+
+      // Set up message listener
+      this.foregroundWorker.addEventListener('message', this.handleMessage.bind(this))
+
+      // Set up error listener
+      this.foregroundWorker.addEventListener('error', (event: ErrorEvent) => {
+        console.error(`[${this.config.name}] Worker error:`, event)
+        if (this.options.onError) {
+          this.options.onError(event)
+        }
+        this._rejectReady(new Error(event.message))
+      })
+
+      // Boot the foreground worker
+      this.foregroundWorker.postMessage({
+        type: 'browser/boot',
+        mode: 'foreground'
+      })
+
+      // The worker is ready after boot message is sent
+      // We'll resolve ready on the first LSP response or after a short delay
+      setTimeout(() => {
+        if (!this.closed) {
+          this._resolveReady()
+        }
+      }, 100)
+
+    } catch (error) {
+      console.error(`[${this.config.name}] Failed to create worker:`, error)
+      this._rejectReady(error as Error)
+    }
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    const data = event.data
+
+    if (!data || typeof data !== 'object') {
+      return
+    }
+
+    // Handle background worker requests
+    if (data.type === 'browser/newWorker') {
+      this.createBackgroundWorker(data)
+      return
+    }
+
+    // Forward LSP messages (JSON-RPC) to handlers
+    if (data.jsonrpc === '2.0') {
+      const message = JSON.stringify(data)
+      this.handlers.forEach(handler => {
+        try {
+          handler(message)
+        } catch (error) {
+          console.error(`[${this.config.name}] Error in LSP message handler:`, error)
+        }
+      })
+    }
+  }
+
+  private createBackgroundWorker(data: { initialData: unknown; port: MessagePort }): void {
+    try {
+      // Create background worker from the same script as the foreground worker
+      const background = new Worker(this.options.workerUrl ?? this.config.workerUrl, {
+        name: `${this.config.name}-background-${this.backgroundWorkers.length + 1}`,
+        type: 'classic'
+      })
+
+      this.backgroundWorkers.push(background)
+
+      // Transfer the port to the background worker
+      background.postMessage(
+        {
+          type: 'browser/boot',
+          mode: 'background',
+          initialData: data.initialData,
+          port: data.port
+        },
+        [data.port]
+      )
+    } catch (error) {
+      console.error(`[${this.config.name}] Failed to create background worker:`, error)
+    }
+  }
+
+  /**
+   * Send a JSON-RPC message to the language server
+   */
+  send(message: string): void {
+    if (this.closed) {
+      throw new Error('Transport is closed')
+    }
+
+    if (!this.foregroundWorker) {
+      throw new Error('Worker not initialized')
+    }
+
+    try {
+      // Parse and send as object for structured cloning
+      const parsed = JSON.parse(message) as LSPMessage
+
+      // Intercept initialize request to inject initializationOptions
+      if (parsed.method === 'initialize' && parsed.params) {
+        // Force rootUri and workspaceFolders to match our VFS structure
+        parsed.params.rootUri = 'file:///workspace'
+        parsed.params.workspaceFolders = [{
+          uri: 'file:///workspace',
+          name: 'workspace'
+        }]
+
+        const { sitePackages = [] } = (parsed.params.initializationOptions ?? {}) as Partial<CheckerInitializationOptions>
+        this.hasSitePackages = sitePackages.length > 0
+
+        parsed.params.initializationOptions = {
+          files: {
+            // Contents are kept up to date by didOpen/didChange
+            ...Object.fromEntries(
+              (this.options.files ?? [])
+                .filter(file => isPythonFile(file.path))
+                .map(file => [`/workspace/${file.path}`, file.content])
+            ),
+            // Map typeshed files to /workspace prefix
+            ...Object.fromEntries(
+              Object.entries(this.typeshedFiles).map(([path, content]) => [`/workspace${path}`, content])
+            ),
+            ...Object.fromEntries(
+              sitePackages.map(file => [`/workspace/${SITE_PACKAGES_DIR}/${file.path}`, file.content])
+            ),
+            '/workspace/.root': '', // Dummy file to ensure root exists
+            '/workspace/pyrightconfig.json': this.configFile(this.options.pythonVersion || '3.12'),
+            ...(this.config.pythonVersionSwitch === 'select' && Object.fromEntries(
+              PYTHON_VERSIONS.map(version => [versionConfigPath(version), this.configFile(version)])
+            ))
+          }
+        }
+      }
+
+      // Switch the running server to another Python version
+      const pythonVersion = (parsed.params?.settings as ConfigurationSettings | undefined)?.python?.pythonVersion
+      if (parsed.method === 'workspace/didChangeConfiguration' && pythonVersion) {
+        this.options.pythonVersion = pythonVersion
+        if (this.config.pythonVersionSwitch === 'rewrite') {
+          // The settings change below makes the server re-read the rewritten file
+          this.foregroundWorker.postMessage({
+            jsonrpc: '2.0',
+            method: 'pyright/createFile',
+            params: { uri: 'file:///workspace/pyrightconfig.json', text: this.configFile(pythonVersion) }
+          })
+        } else {
+          parsed.params = {
+            ...parsed.params,
+            settings: {
+              ...parsed.params?.settings as ConfigurationSettings,
+              basedpyright: { analysis: { configFilePath: versionConfigPath(pythonVersion) } }
+            }
+          }
+        }
+      }
+
+      this.foregroundWorker.postMessage(parsed)
+    } catch {
+      // If parsing fails, send as string
+      this.foregroundWorker.postMessage(message)
+    }
+  }
+
+  /**
+   * The contents of pyrightconfig.json for a Python version: the checker's defaults,
+   * then the workspace settings
+   */
+  private configFile(pythonVersion: PythonVersion): string {
+    return JSON.stringify({
+      ...this.config.settings,
+      ...this.options.settings,
+      pythonVersion,
+      typeshedPath: '/workspace/typeshed', // Update typeshedPath
+      stubPath: '',
+      // Resolve installed packages from the virtual environment's site-packages
+      ...(this.hasSitePackages && { venvPath: '/workspace', venv: VIRTUAL_ENV_DIR })
+    })
+  }
+
+  /**
+   * Subscribe to messages from the language server
+   */
+  subscribe(handler: (message: string) => void): void {
+    this.handlers.add(handler)
+  }
+
+  /**
+   * Unsubscribe from messages
+   */
+  unsubscribe(handler: (message: string) => void): void {
+    this.handlers.delete(handler)
+  }
+
+  /**
+   * Close the transport and terminate all workers
+   */
+  close(): void {
+    if (this.closed) return
+
+    this.closed = true
+
+    if (this.foregroundWorker) {
+      this.foregroundWorker.terminate()
+      this.foregroundWorker = null
+    }
+
+    this.backgroundWorkers.forEach(worker => worker.terminate())
+    this.backgroundWorkers = []
+
+    this.handlers.clear()
+
+    if (this.options.onClose) {
+      this.options.onClose()
+    }
+  }
+
+  /**
+   * Check if the transport is closed
+   */
+  isClosed(): boolean {
+    return this.closed
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * TracedTransport wraps another transport and records every message it carries, in
+ * both directions, in the LSP traffic log.
+ */
+
+import type { ClosableTransport } from './HeadlessLSPSession'
+import { recordTraffic } from './trafficLog'
+
+export class TracedTransport implements ClosableTransport {
+  private transport: ClosableTransport
+  private source: string
+  private handleMessage = (message: string) => recordTraffic(this.source, 'receive', message)
+
+  /**
+   * @param source The name the messages are logged under, e.g. the checker's id
+   */
+  constructor(transport: ClosableTransport, source: string) {
+    this.transport = transport
+    this.source = source
+    // Subscribed first, so incoming messages are logged before they are handled
+    this.transport.subscribe(this.handleMessage)
+  }
+
+  send(message: string): void {
+    recordTraffic(this.source, 'send', message)
+    this.transport.send(message)
+  }
+
+  subscribe(handler: (message: string) => void): void {
+    this.transport.subscribe(handler)
+  }
+
+  unsubscribe(handler: (message: string) => void): void {
+    this.transport.unsubscribe(handler)
+  }
+
+  close(): void {
+    this.transport.unsubscribe(this.handleMessage)
+    this.transport.close()
+  }
+}
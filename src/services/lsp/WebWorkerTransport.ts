@@ -4,6 +4,10 @@
  *
  * The LSP protocol uses JSON-RPC messages over a transport layer. This implementation
  * bridges the Web Worker postMessage API to the LSP Transport interface.
+ *
+ * Workers report a fatal error they caught themselves (e.g. a WASM panic, after which
+ * the module is unusable) by posting { type: 'crash', reason }. It is passed to onError
+ * like an uncaught error.
  */
 
 export interface Transport {
@@ -24,9 +28,9 @@ export interface WebWorkerTransportOptions {
   workerOptions?: WorkerOptions
 
   /**
-   * Optional error handler for worker errors
+   * Optional error handler for worker errors and crashes the worker reports
    */
-  onError?: (error: ErrorEvent) => void
+  onError?: (error: ErrorEvent | Error) => void
 
   /**
    * Optional handler for when the worker terminates
@@ -85,8 +89,11 @@ export class WebWorkerTransport implements Transport {
         } catch {
           // Ignore unparseable messages
         }
+      } else if (typeof data === 'object' && data !== null && data.type === 'crash') {
+        console.error('WebWorker crashed:', data.reason)
+        config.onError?.(new Error(data.reason))
       }
-      // Ignore non-JSON-RPC messages (like worker-ready)
+      // Ignore other non-JSON-RPC messages (like worker-ready)
     }
 
     // Set up error listener
@@ -0,0 +1,309 @@
+/**
+ * Checker LSP Service
+ *
+ * Creates and manages the LSP client connection to the active checker's language
+ * server. Only one checker is active at a time, so starting one closes the previous.
+ *
+ * The server is watched for crashes and hangs (see MonitoredTransport). When one is
+ * detected, a new server is started and the same client reconnects to it, which
+ * re-runs initialize and opens every workspace document again.
+ */
+
+import { LSPClient, languageServerExtensions } from '@codemirror/lsp-client'
+import {
+  pythonVersionParams,
+  type CheckerBuild,
+  type CheckerInitializationOptions,
+  type CheckerSettings,
+  type LSPCheckerDefinition
+} from '../checkers'
+import type { PythonVersion } from '../../App'
+import { WORKSPACE_ROOT_URI, type PlaygroundFile } from '../workspaceFiles'
+import { serverDiagnosticsWithTags, type LSPDiagnostic } from './diagnostics'
+import { MonitoredTransport } from './MonitoredTransport'
+import { TracedTransport } from './TracedTransport'
+import { PlaygroundWorkspace } from './PlaygroundWorkspace'
+import { semanticTokensCapabilities } from './semanticTokens'
+import { documentSymbolCapabilities } from './documentSymbols'
+
+let client: LSPClient | null = null
+let transport: MonitoredTransport | null = null
+let activeChecker: LSPCheckerDefinition | null = null
+// The Python version and settings the running server is configured with
+let serverPythonVersion: PythonVersion | null = null
+let serverSettings: CheckerSettings | null = null
+// Bumped by every create and close, so a start that was superseded while it was
+// still initializing can shut itself down
+let generation = 0
+// When the server was restarted after crashes, to give up on one that keeps crashing
+let restartTimes: number[] = []
+// Receives crashes of a server that is still answering the first initialize, before
+// there is a client to reconnect
+let startupFailure: ((reason: string) => void) | null = null
+
+const MAX_RESTARTS = 3
+const RESTART_WINDOW = 60000
+
+export interface CheckerLSPOptions {
+  pythonVersion: PythonVersion
+  /**
+   * The build of the checker to start, the bundled one if omitted
+   */
+  build?: CheckerBuild
+  /**
+   * Workspace files, for servers that are seeded with them on startup
+   */
+  files: PlaygroundFile[]
+  /**
+   * Installed packages, with paths relative to site-packages
+   */
+  sitePackages: PlaygroundFile[]
+  settings: CheckerSettings
+  onDiagnostics?: (uri: string, diagnostics: LSPDiagnostic[]) => void
+  /**
+   * Called when the server crashed, with the reason and whether it was restarted
+   */
+  onCrash?: (reason: string, restarted: boolean) => void
+}
+
+/**
+ * Start a checker's language server and create an initialized LSP client for it.
+ * Resolves to null if another client was created or the client was closed while
+ * this one was starting.
+ */
+export async function createCheckerLSPClient(
+  checker: LSPCheckerDefinition,
+  options: CheckerLSPOptions
+): Promise<LSPClient | null> {
+  const { pythonVersion, sitePackages } = options
+
+  // Close any existing client and transport FIRST
+  await closeCheckerLSPClient()
+  const current = generation
+
+  // Create the LSP client with all language server extensions
+  const newClient = new LSPClient({
+    rootUri: WORKSPACE_ROOT_URI,
+    workspace: (lspClient) => new PlaygroundWorkspace(lspClient),
+    initializationOptions: { pythonVersion, sitePackages } satisfies CheckerInitializationOptions,
+    timeout: checker.timeout,
+    extensions: [
+      serverDiagnosticsWithTags,
+      ...languageServerExtensions(),
+      semanticTokensCapabilities,
+      documentSymbolCapabilities
+    ]
+  })
+
+  // A server that crashes or fails to start during the first initialize is restarted
+  // like one that crashes later, within the same limit
+  let newTransport: MonitoredTransport | null = null
+  let crash: string | null = null
+  for (;;) {
+    newTransport = null
+    const failed = new Promise<string>(resolve => {
+      startupFailure = resolve
+    })
+    let failure: string | null
+    try {
+      newTransport = await startTransport(checker, options, current)
+      if (!newTransport) return null
+
+      // Connect the client to the transport and wait for initialization
+      newClient.connect(newTransport)
+      failure = await Promise.race([newClient.initializing.then(() => null), failed])
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error)
+    }
+
+    if (current !== generation) {
+      newClient.disconnect()
+      newTransport?.close()
+      return null
+    }
+    if (failure === null) break
+
+    console.error(`[LSP] ${checker.label} server crashed while initializing: ${failure}`)
+    newClient.disconnect()
+    newTransport?.close()
+    if (!allowRestart()) {
+      startupFailure = null
+      options.onCrash?.(failure, false)
+      return null
+    }
+    crash = failure
+  }
+  startupFailure = null
+
+  // Only assign to module-level variables after successful initialization
+  client = newClient
+  transport = newTransport
+  activeChecker = checker
+  serverPythonVersion = pythonVersion
+  serverSettings = options.settings
+
+  if (crash) {
+    options.onCrash?.(crash, true)
+  }
+  return client
+}
+
+/**
+ * Count a restart, or return false if the server has already been restarted too
+ * often recently
+ */
+function allowRestart(): boolean {
+  const now = Date.now()
+  restartTimes = restartTimes.filter(time => now - time < RESTART_WINDOW)
+  if (restartTimes.length >= MAX_RESTARTS) return false
+  restartTimes.push(now)
+  return true
+}
+
+/**
+ * Start a server and watch it, restarting it when it fails
+ */
+async function startTransport(
+  checker: LSPCheckerDefinition,
+  options: CheckerLSPOptions,
+  current: number
+): Promise<MonitoredTransport | null> {
+  const { pythonVersion, build, files, settings, onDiagnostics } = options
+  let monitored: MonitoredTransport | null = null
+
+  const serverTransport = await checker.createTransport({
+    pythonVersion,
+    build,
+    files,
+    settings,
+    onCrash: reason => monitored?.fail(reason)
+  })
+  if (current !== generation) {
+    serverTransport.close()
+    return null
+  }
+
+  monitored = new MonitoredTransport(new TracedTransport(serverTransport, checker.id), {
+    responseTimeout: checker.timeout,
+    onFailure: reason => restartServer(checker, options, current, reason)
+  })
+
+  // Subscribe to transport to intercept diagnostics
+  if (onDiagnostics) {
+    monitored.subscribe((message: string) => {
+      try {
+        const data = JSON.parse(message)
+        if (data.method === 'textDocument/publishDiagnostics' && data.params) {
+          onDiagnostics(data.params.uri, data.params.diagnostics)
+        }
+      } catch (e) {
+        console.error('Failed to parse LSP message', e)
+      }
+    })
+  }
+
+  return monitored
+}
+
+/**
+ * Replace a crashed server with a new one and reconnect the client to it
+ */
+async function restartServer(
+  checker: LSPCheckerDefinition,
+  options: CheckerLSPOptions,
+  current: number,
+  reason: string
+): Promise<void> {
+  if (current !== generation) return
+  if (!client) {
+    startupFailure?.(reason)
+    return
+  }
+  if (!transport) return
+
+  console.error(`[LSP] ${checker.label} server crashed: ${reason}`)
+  const crashedClient = client
+  crashedClient.disconnect()
+  transport.close()
+  transport = null
+
+  if (!allowRestart()) {
+    options.onCrash?.(reason, false)
+    return
+  }
+
+  try {
+    const newTransport = await startTransport(checker, {
+      ...options,
+      pythonVersion: serverPythonVersion ?? options.pythonVersion,
+      settings: serverSettings ?? options.settings,
+      files: (crashedClient.workspace as PlaygroundWorkspace).playgroundFiles()
+    }, current)
+    if (!newTransport) return
+    transport = newTransport
+
+    crashedClient.connect(newTransport)
+    await crashedClient.initializing
+    if (current !== generation) return
+
+    // The new server starts from the client's initialization options, so bring it up
+    // to date with changes made since the client was created
+    if (serverPythonVersion && serverPythonVersion !== options.pythonVersion) {
+      crashedClient.notification('workspace/didChangeConfiguration', pythonVersionParams(serverPythonVersion))
+    }
+    if (checker.configurationParams && serverSettings) {
+      crashedClient.notification('workspace/didChangeConfiguration', checker.configurationParams(serverSettings))
+    }
+    options.onCrash?.(reason, true)
+  } catch (error) {
+    console.error(`[LSP] Failed to restart ${checker.label}:`, error)
+    if (current === generation) {
+      options.onCrash?.(`${reason} (restarting failed: ${error})`, false)
+    }
+  }
+}
+
+/**
+ * Get the current LSP client instance
+ */
+export function getCheckerLSPClient(): LSPClient | null {
+  return client
+}
+
+/**
+ * Switch the running server to another Python version without restarting it
+ */
+export function updateCheckerPythonVersion(pythonVersion: PythonVersion): void {
+  if (!client || pythonVersion === serverPythonVersion) return
+  client.notification('workspace/didChangeConfiguration', pythonVersionParams(pythonVersion))
+  serverPythonVersion = pythonVersion
+}
+
+/**
+ * Apply new settings to a running server that takes configuration at runtime
+ */
+export function updateCheckerConfiguration(settings: CheckerSettings): void {
+  if (!client || !activeChecker?.configurationParams) return
+  client.notification('workspace/didChangeConfiguration', activeChecker.configurationParams(settings))
+  serverSettings = settings
+}
+
+/**
+ * Close the LSP client and cleanup
+ */
+export async function closeCheckerLSPClient(): Promise<void> {
+  generation++
+  if (client) {
+    client.disconnect()
+    client = null
+  }
+  if (transport) {
+    transport.close()
+    transport = null
+  }
+  activeChecker = null
+  serverPythonVersion = null
+  serverSettings = null
+  restartTimes = []
+  startupFailure = null
+}
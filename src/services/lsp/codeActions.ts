@@ -0,0 +1,300 @@
+/**
+ * Code actions for @codemirror/lsp-client
+ *
+ * The client package does not implement textDocument/codeAction, so this extension
+ * asks the server for actions at the cursor, shows a lightbulb in the gutter when
+ * there are any, and lists them in a quick-fix menu (click the lightbulb, press
+ * Ctrl-. / Cmd-., or use the editor's context menu).
+ */
+
+import { RangeSet, StateEffect, StateField, type Extension } from '@codemirror/state'
+import {
+  EditorView,
+  GutterMarker,
+  ViewPlugin,
+  gutter,
+  keymap,
+  showTooltip,
+  type Command,
+  type Tooltip,
+  type ViewUpdate
+} from '@codemirror/view'
+import { forEachDiagnostic } from '@codemirror/lint'
+import { LSPPlugin } from '@codemirror/lsp-client'
+import { publishedDiagnostic } from './diagnostics'
+import { applyWorkspaceEdit, type LSPRange, type LSPWorkspaceEdit } from './workspaceEdit'
+
+interface LSPCommand {
+  title: string
+  command: string
+  arguments?: unknown[]
+}
+
+interface LSPCodeAction {
+  title: string
+  kind?: string
+  isPreferred?: boolean
+  disabled?: { reason: string }
+  edit?: LSPWorkspaceEdit
+  command?: LSPCommand
+}
+
+interface LSPContextDiagnostic {
+  range: LSPRange
+  message: string
+  severity: number
+  code?: string | number
+  source?: string
+}
+
+interface CodeActionState {
+  /**
+   * Document position the actions were requested for
+   */
+  pos: number
+  actions: LSPCodeAction[]
+  menuOpen: boolean
+}
+
+// Wait for the cursor to settle before asking the server
+const REQUEST_DELAY = 250
+
+const LINT_SEVERITIES: Record<string, number> = { error: 1, warning: 2, info: 3, hint: 4 }
+
+const setCodeActions = StateEffect.define<{ pos: number; actions: LSPCodeAction[]; menuOpen: boolean } | null>()
+const setMenuOpen = StateEffect.define<boolean>()
+
+const codeActionField = StateField.define<CodeActionState | null>({
+  create() {
+    return null
+  },
+  update(value, tr) {
+    // Actions refer to the document they were computed for
+    if (tr.docChanged) value = null
+    else if (tr.selection && value?.menuOpen) value = { ...value, menuOpen: false }
+
+    for (const effect of tr.effects) {
+      if (effect.is(setCodeActions)) {
+        value = effect.value
+      } else if (effect.is(setMenuOpen) && value) {
+        value = { ...value, menuOpen: effect.value }
+      }
+    }
+    return value
+  },
+  provide: field => showTooltip.from(field, value => value?.menuOpen ? codeActionMenu(value) : null)
+})
+
+/**
+ * Build the quick-fix menu tooltip
+ */
+function codeActionMenu(value: CodeActionState): Tooltip {
+  return {
+    pos: value.pos,
+    above: false,
+    create(view) {
+      const dom = document.createElement('div')
+      dom.className = 'cm-code-action-menu'
+
+      if (value.actions.length === 0) {
+        const empty = document.createElement('div')
+        empty.className = 'cm-code-action-empty'
+        empty.textContent = 'No code actions available'
+        dom.appendChild(empty)
+      }
+
+      for (const action of value.actions) {
+        const button = document.createElement('button')
+        button.type = 'button'
+        button.className = action.isPreferred ? 'cm-code-action cm-code-action-preferred' : 'cm-code-action'
+        button.textContent = action.title
+        button.addEventListener('mousedown', event => {
+          event.preventDefault()
+          view.dispatch({ effects: setMenuOpen.of(false) })
+          applyCodeAction(view, action)
+        })
+        dom.appendChild(button)
+      }
+
+      return { dom }
+    }
+  }
+}
+
+class LightbulbMarker extends GutterMarker {
+  toDOM(): Node {
+    const span = document.createElement('span')
+    span.className = 'cm-lightbulb'
+    span.textContent = '💡'
+    span.title = 'Show code actions (Ctrl+.)'
+    return span
+  }
+}
+
+const lightbulbMarker = new LightbulbMarker()
+
+const lightbulbGutter = gutter({
+  class: 'cm-code-action-gutter',
+  markers: view => {
+    const value = view.state.field(codeActionField)
+    if (!value || value.actions.length === 0) return RangeSet.empty
+    return RangeSet.of([lightbulbMarker.range(view.state.doc.lineAt(value.pos).from)])
+  },
+  domEventHandlers: {
+    mousedown(view, line) {
+      const value = view.state.field(codeActionField)
+      if (!value || value.actions.length === 0) return false
+      if (view.state.doc.lineAt(value.pos).from !== line.from) return false
+      view.dispatch({ effects: setMenuOpen.of(!value.menuOpen) })
+      return true
+    }
+  }
+})
+
+/**
+ * Diagnostics shown in the editor that overlap a range, in LSP form, so the server
+ * can offer fixes for them
+ */
+function diagnosticsInRange(view: EditorView, plugin: LSPPlugin, from: number, to: number): LSPContextDiagnostic[] {
+  const diagnostics: LSPContextDiagnostic[] = []
+  forEachDiagnostic(view.state, (diag, diagFrom, diagTo) => {
+    if (diagFrom <= to && diagTo >= from) {
+      const published = publishedDiagnostic(diag)
+      diagnostics.push({
+        range: { start: plugin.toPosition(diagFrom), end: plugin.toPosition(diagTo) },
+        message: diag.message,
+        severity: LINT_SEVERITIES[diag.severity] ?? 1,
+        code: published?.code,
+        source: published ? published.source : diag.source
+      })
+    }
+  })
+  return diagnostics
+}
+
+/**
+ * Ask the server for the code actions at the main selection. Resolves to null when
+ * the server has no code action support or the document changed in the meantime.
+ */
+async function requestCodeActions(view: EditorView): Promise<{ pos: number; actions: LSPCodeAction[] } | null> {
+  const plugin = LSPPlugin.get(view)
+  if (!plugin || !plugin.client.serverCapabilities?.codeActionProvider) return null
+
+  plugin.client.sync()
+  const doc = view.state.doc
+  const selection = view.state.selection.main
+  // With a bare cursor, offer fixes for everything reported on its line
+  const line = doc.lineAt(selection.head)
+  const from = selection.empty ? line.from : selection.from
+  const to = selection.empty ? line.to : selection.to
+
+  const result = await plugin.client.request<unknown, (LSPCodeAction | LSPCommand)[] | null>('textDocument/codeAction', {
+    textDocument: { uri: plugin.uri },
+    range: { start: plugin.toPosition(from), end: plugin.toPosition(to) },
+    context: { diagnostics: diagnosticsInRange(view, plugin, from, to), triggerKind: 2 }
+  })
+  if (view.state.doc !== doc) return null
+
+  const actions = (result ?? [])
+    .map(item => typeof item.command === 'string' ? { title: item.title, command: item as LSPCommand } : item as LSPCodeAction)
+    .filter(action => !action.disabled)
+  return { pos: selection.head, actions }
+}
+
+/**
+ * Apply a code action's edit, then run its command
+ */
+async function applyCodeAction(view: EditorView, action: LSPCodeAction): Promise<void> {
+  const plugin = LSPPlugin.get(view)
+  if (!plugin) return
+
+  try {
+    let resolved = action
+    const provider = plugin.client.serverCapabilities?.codeActionProvider
+    if (!action.edit && typeof provider === 'object' && provider.resolveProvider) {
+      resolved = await plugin.client.request<LSPCodeAction, LSPCodeAction>('codeAction/resolve', action)
+    }
+    if (resolved.edit) {
+      applyWorkspaceEdit(plugin.client, resolved.edit, 'codeAction')
+    }
+    if (resolved.command) {
+      await plugin.client.request('workspace/executeCommand', {
+        command: resolved.command.command,
+        arguments: resolved.command.arguments
+      })
+    }
+  } catch (error) {
+    plugin.reportError('Code action failed', error)
+  }
+}
+
+const codeActionPlugin = ViewPlugin.fromClass(class {
+  private view: EditorView
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(view: EditorView) {
+    this.view = view
+  }
+
+  update(update: ViewUpdate) {
+    if (update.docChanged || update.selectionSet) {
+      this.schedule()
+    }
+  }
+
+  destroy() {
+    if (this.timer !== null) clearTimeout(this.timer)
+  }
+
+  private schedule() {
+    if (this.timer !== null) clearTimeout(this.timer)
+    this.timer = setTimeout(async () => {
+      this.timer = null
+      try {
+        const result = await requestCodeActions(this.view)
+        if (result) {
+          this.view.dispatch({ effects: setCodeActions.of({ ...result, menuOpen: false }) })
+        }
+      } catch (error) {
+        console.error('[LSP] Code action request failed:', error)
+      }
+    }, REQUEST_DELAY)
+  }
+})
+
+/**
+ * Open the quick-fix menu for the code actions at the cursor
+ */
+export const showCodeActions: Command = view => {
+  if (!LSPPlugin.get(view)) return false
+
+  requestCodeActions(view).then(result => {
+    if (result) {
+      view.dispatch({ effects: setCodeActions.of({ ...result, menuOpen: true }) })
+    }
+  }, error => {
+    LSPPlugin.get(view)?.reportError('Code action request failed', error)
+  })
+  return true
+}
+
+const closeCodeActions: Command = view => {
+  if (!view.state.field(codeActionField, false)?.menuOpen) return false
+  view.dispatch({ effects: setMenuOpen.of(false) })
+  return true
+}
+
+/**
+ * Lightbulb and quick-fix menu for the language server's code actions
+ */
+export function codeActions(): Extension {
+  return [
+    codeActionField,
+    codeActionPlugin,
+    lightbulbGutter,
+    keymap.of([
+      { key: 'Mod-.', run: showCodeActions, preventDefault: true },
+      { key: 'Escape', run: closeCodeActions }
+    ])
+  ]
+}
@@ -0,0 +1,150 @@
+/**
+ * Conversion from LSP diagnostics to the app's Diagnostic format, and the editor's
+ * handling of published diagnostics
+ *
+ * @codemirror/lsp-client's own publishDiagnostics handler keeps only the range,
+ * severity and message. serverDiagnosticsWithTags replaces it, so the editor also
+ * shows rule codes and fades unnecessary (unused) code and strikes through
+ * deprecated code.
+ */
+
+import { setDiagnostics, type Diagnostic as LintDiagnostic } from '@codemirror/lint'
+import { LSPPlugin, type LSPClientExtension } from '@codemirror/lsp-client'
+import type { Diagnostic, DiagnosticTag, RelatedLocation } from '../../App'
+import { uriToPath } from '../workspaceFiles'
+
+interface LSPRange {
+  start: { line: number; character: number }
+  end: { line: number; character: number }
+}
+
+export interface LSPDiagnostic {
+  range: LSPRange
+  severity?: number
+  code?: string | number
+  codeDescription?: { href: string }
+  /**
+   * DiagnosticTag values: 1 is Unnecessary, 2 is Deprecated
+   */
+  tags?: number[]
+  relatedInformation?: { location: { uri: string; range: LSPRange }; message: string }[]
+  message: string
+  source?: string
+}
+
+const UNNECESSARY_TAG = 1
+const DEPRECATED_TAG = 2
+
+// The published diagnostic each editor diagnostic was made from
+const publishedDiagnostics = new WeakMap<LintDiagnostic, LSPDiagnostic>()
+
+/**
+ * The diagnostic as the server published it, for an editor diagnostic shown by
+ * serverDiagnosticsWithTags. Code actions send it back with its rule code.
+ */
+export function publishedDiagnostic(diagnostic: LintDiagnostic): LSPDiagnostic | undefined {
+  return publishedDiagnostics.get(diagnostic)
+}
+
+function toAppTags(tags: number[] | undefined): DiagnosticTag[] | undefined {
+  const result = (tags ?? []).flatMap((tag): DiagnosticTag[] =>
+    tag === UNNECESSARY_TAG ? ['unnecessary'] : tag === DEPRECATED_TAG ? ['deprecated'] : []
+  )
+  return result.length > 0 ? result : undefined
+}
+
+function toRelatedLocation(info: NonNullable<LSPDiagnostic['relatedInformation']>[number]): RelatedLocation {
+  return {
+    path: uriToPath(info.location.uri) ?? undefined,
+    uri: info.location.uri,
+    start: { line: info.location.range.start.line + 1, column: info.location.range.start.character + 1 },
+    end: { line: info.location.range.end.line + 1, column: info.location.range.end.character + 1 },
+    message: info.message
+  }
+}
+
+/**
+ * Convert an LSP diagnostic (0-based positions) to our 1-based Diagnostic format.
+ * The server's own source is kept; the checker id is the fallback for servers that
+ * leave it out.
+ */
+export function toAppDiagnostic(diag: LSPDiagnostic, fallbackSource: string, path?: string): Diagnostic {
+  return {
+    path,
+    start: {
+      line: diag.range.start.line + 1,
+      column: diag.range.start.character + 1
+    },
+    end: {
+      line: diag.range.end.line + 1,
+      column: diag.range.end.character + 1
+    },
+    message: diag.message,
+    severity: diag.severity === 1 ? 'error' : diag.severity === 2 ? 'warning' : 'info',
+    source: diag.source ?? fallbackSource,
+    code: diag.code === undefined ? undefined : String(diag.code),
+    codeDescription: diag.codeDescription?.href,
+    tags: toAppTags(diag.tags),
+    related: diag.relatedInformation?.map(toRelatedLocation)
+  }
+}
+
+function toLintSeverity(severity: number | undefined): LintDiagnostic['severity'] {
+  return severity === 2 ? 'warning' : severity === 3 ? 'info' : severity === 4 ? 'hint' : 'error'
+}
+
+/**
+ * Extra classes for a diagnostic's range: faded for unnecessary code, struck through
+ * for deprecated code
+ */
+function tagClass(tags: number[] | undefined): string | undefined {
+  const classes = [
+    ...(tags?.includes(UNNECESSARY_TAG) ? ['cm-diagnostic-unnecessary'] : []),
+    ...(tags?.includes(DEPRECATED_TAG) ? ['cm-diagnostic-deprecated'] : [])
+  ]
+  return classes.length > 0 ? classes.join(' ') : undefined
+}
+
+/**
+ * Client extension that shows published diagnostics in the editor with their rule
+ * code and tags. It must come before languageServerExtensions() in the client's
+ * extensions, so that it handles publishDiagnostics in place of the built-in handler.
+ */
+export const serverDiagnosticsWithTags: LSPClientExtension = {
+  clientCapabilities: {
+    textDocument: {
+      publishDiagnostics: {
+        versionSupport: true,
+        relatedInformation: true,
+        codeDescriptionSupport: true,
+        tagSupport: { valueSet: [UNNECESSARY_TAG, DEPRECATED_TAG] }
+      }
+    }
+  },
+  notificationHandlers: {
+    'textDocument/publishDiagnostics': (client, params: { uri: string; version?: number; diagnostics: LSPDiagnostic[] }) => {
+      const file = client.workspace.getFile(params.uri)
+      if (!file || (params.version != null && params.version !== file.version)) return false
+      const view = file.getView()
+      const plugin = view && LSPPlugin.get(view)
+      if (!view || !plugin) return false
+
+      const position = (pos: LSPRange['start']) =>
+        plugin.unsyncedChanges.mapPos(plugin.fromPosition(pos, plugin.syncedDoc))
+
+      view.dispatch(setDiagnostics(view.state, params.diagnostics.map(item => {
+        const diagnostic: LintDiagnostic = {
+          from: position(item.range.start),
+          to: position(item.range.end),
+          severity: toLintSeverity(item.severity),
+          message: item.message,
+          source: item.code === undefined ? item.source : `${item.source ?? ''}[${item.code}]`,
+          markClass: tagClass(item.tags)
+        }
+        publishedDiagnostics.set(diagnostic, item)
+        return diagnostic
+      })))
+      return true
+    }
+  }
+}
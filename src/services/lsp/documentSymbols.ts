@@ -0,0 +1,131 @@
+/**
+ * Document symbols for the outline panel and go-to-symbol
+ *
+ * Requests textDocument/documentSymbol from the active language server and converts
+ * the result, hierarchical DocumentSymbols or flat SymbolInformation, to a tree of
+ * symbols with 1-based ranges like the app's diagnostics.
+ */
+
+import type { LSPClient, LSPClientExtension } from '@codemirror/lsp-client'
+import type { DiagnosticRange } from '../../App'
+import type { LSPRange } from './workspaceEdit'
+
+interface LSPDocumentSymbol {
+  name: string
+  detail?: string
+  kind: number
+  range: LSPRange
+  selectionRange: LSPRange
+  children?: LSPDocumentSymbol[]
+}
+
+interface LSPSymbolInformation {
+  name: string
+  kind: number
+  location: { uri: string; range: LSPRange }
+  containerName?: string
+}
+
+export interface OutlineSymbol {
+  name: string
+  detail?: string
+  kind: string
+  start: DiagnosticRange
+  end: DiagnosticRange
+  /**
+   * Range of the symbol's name, where go-to-symbol puts the cursor
+   */
+  selectionStart: DiagnosticRange
+  selectionEnd: DiagnosticRange
+  children: OutlineSymbol[]
+}
+
+/**
+ * A symbol with the names of the symbols that contain it, for go-to-symbol
+ */
+export interface FlatSymbol extends OutlineSymbol {
+  container: string
+}
+
+// Names of the LSP SymbolKind values, indexed by value
+const SYMBOL_KIND_NAMES = [
+  '', 'file', 'module', 'namespace', 'package', 'class', 'method', 'property', 'field',
+  'constructor', 'enum', 'interface', 'function', 'variable', 'constant', 'string', 'number',
+  'boolean', 'array', 'object', 'key', 'null', 'enumMember', 'struct', 'event', 'operator',
+  'typeParameter'
+]
+
+/**
+ * Client capabilities asking for hierarchical symbols, for LSPClient's extensions
+ */
+export const documentSymbolCapabilities: LSPClientExtension = {
+  clientCapabilities: {
+    textDocument: {
+      documentSymbol: {
+        hierarchicalDocumentSymbolSupport: true,
+        symbolKind: { valueSet: SYMBOL_KIND_NAMES.map((_, kind) => kind).slice(1) }
+      }
+    }
+  }
+}
+
+function toRange(position: { line: number; character: number }): DiagnosticRange {
+  return { line: position.line + 1, column: position.character + 1 }
+}
+
+function fromDocumentSymbol(symbol: LSPDocumentSymbol): OutlineSymbol {
+  return {
+    name: symbol.name,
+    detail: symbol.detail,
+    kind: SYMBOL_KIND_NAMES[symbol.kind] ?? 'variable',
+    start: toRange(symbol.range.start),
+    end: toRange(symbol.range.end),
+    selectionStart: toRange(symbol.selectionRange.start),
+    selectionEnd: toRange(symbol.selectionRange.end),
+    children: (symbol.children ?? []).map(fromDocumentSymbol)
+  }
+}
+
+function fromSymbolInformation(symbol: LSPSymbolInformation): OutlineSymbol {
+  const start = toRange(symbol.location.range.start)
+  const end = toRange(symbol.location.range.end)
+  return {
+    name: symbol.name,
+    detail: symbol.containerName,
+    kind: SYMBOL_KIND_NAMES[symbol.kind] ?? 'variable',
+    start,
+    end,
+    selectionStart: start,
+    selectionEnd: end,
+    children: []
+  }
+}
+
+/**
+ * Request the symbols of an open document. Resolves to an empty list when the
+ * server does not provide document symbols.
+ */
+export async function requestDocumentSymbols(client: LSPClient, uri: string): Promise<OutlineSymbol[]> {
+  await client.initializing
+  if (!client.serverCapabilities?.documentSymbolProvider) return []
+
+  client.sync()
+  const result = await client.request<unknown, (LSPDocumentSymbol | LSPSymbolInformation)[] | null>(
+    'textDocument/documentSymbol',
+    { textDocument: { uri } }
+  )
+
+  return (result ?? []).map(symbol =>
+    'location' in symbol ? fromSymbolInformation(symbol) : fromDocumentSymbol(symbol)
+  )
+}
+
+/**
+ * List every symbol in a tree, parents before their children
+ */
+export function flattenSymbols(symbols: OutlineSymbol[], container = ''): FlatSymbol[] {
+  return symbols.flatMap(symbol => [
+    { ...symbol, container },
+    ...flattenSymbols(symbol.children, container ? `${container}.${symbol.name}` : symbol.name)
+  ])
+}
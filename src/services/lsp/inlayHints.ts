@@ -0,0 +1,157 @@
+/**
+ * Inlay hints for @codemirror/lsp-client
+ *
+ * The client package does not implement textDocument/inlayHint, so this extension
+ * requests hints for the visible part of the document whenever it changes or scrolls
+ * and renders them as inline widgets.
+ */
+
+import { StateEffect, type Extension, type Range } from '@codemirror/state'
+import {
+  Decoration,
+  ViewPlugin,
+  WidgetType,
+  type DecorationSet,
+  type EditorView,
+  type ViewUpdate
+} from '@codemirror/view'
+import { LSPPlugin } from '@codemirror/lsp-client'
+
+interface LSPPosition {
+  line: number
+  character: number
+}
+
+interface LSPInlayHintLabelPart {
+  value: string
+}
+
+interface LSPInlayHint {
+  position: LSPPosition
+  label: string | LSPInlayHintLabelPart[]
+  kind?: number
+  paddingLeft?: boolean
+  paddingRight?: boolean
+}
+
+// LSP InlayHintKind.Parameter; everything else is rendered as a type hint
+const PARAMETER_HINT = 2
+
+// Wait for typing or scrolling to pause before asking the server again
+const REQUEST_DELAY = 300
+
+const setInlayHints = StateEffect.define<DecorationSet>()
+
+class InlayHintWidget extends WidgetType {
+  private label: string
+  private kind: 'type' | 'parameter'
+  private paddingLeft: boolean
+  private paddingRight: boolean
+
+  constructor(hint: LSPInlayHint) {
+    super()
+    this.label = typeof hint.label === 'string' ? hint.label : hint.label.map(part => part.value).join('')
+    this.kind = hint.kind === PARAMETER_HINT ? 'parameter' : 'type'
+    this.paddingLeft = hint.paddingLeft ?? false
+    this.paddingRight = hint.paddingRight ?? false
+  }
+
+  eq(other: InlayHintWidget): boolean {
+    return other.label === this.label &&
+      other.kind === this.kind &&
+      other.paddingLeft === this.paddingLeft &&
+      other.paddingRight === this.paddingRight
+  }
+
+  toDOM(): HTMLElement {
+    const span = document.createElement('span')
+    span.className = `cm-inlay-hint cm-inlay-hint-${this.kind}`
+    if (this.paddingLeft) span.classList.add('cm-inlay-hint-padding-left')
+    if (this.paddingRight) span.classList.add('cm-inlay-hint-padding-right')
+    span.textContent = this.label
+    return span
+  }
+
+  ignoreEvent(): boolean {
+    return false
+  }
+}
+
+const inlayHintPlugin = ViewPlugin.fromClass(class {
+  decorations: DecorationSet = Decoration.none
+  private view: EditorView
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private requestId = 0
+
+  constructor(view: EditorView) {
+    this.view = view
+    this.schedule()
+  }
+
+  update(update: ViewUpdate) {
+    for (const tr of update.transactions) {
+      for (const effect of tr.effects) {
+        if (effect.is(setInlayHints)) this.decorations = effect.value
+      }
+    }
+    if (update.docChanged) {
+      this.decorations = this.decorations.map(update.changes)
+    }
+    if (update.docChanged || update.viewportChanged) {
+      this.schedule()
+    }
+  }
+
+  destroy() {
+    if (this.timer !== null) clearTimeout(this.timer)
+    this.requestId++
+  }
+
+  private schedule() {
+    if (this.timer !== null) clearTimeout(this.timer)
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.request()
+    }, REQUEST_DELAY)
+  }
+
+  private async request() {
+    const plugin = LSPPlugin.get(this.view)
+    if (!plugin || !plugin.client.serverCapabilities?.inlayHintProvider) return
+
+    const id = ++this.requestId
+    const { from, to } = this.view.viewport
+    plugin.client.sync()
+
+    try {
+      const hints = await plugin.client.withMapping(mapping =>
+        plugin.client.request<unknown, LSPInlayHint[] | null>('textDocument/inlayHint', {
+          textDocument: { uri: plugin.uri },
+          range: { start: plugin.toPosition(from), end: plugin.toPosition(to) }
+        }).then(result => {
+          // Map hint positions through edits made while the request was in flight
+          const decorations: Range<Decoration>[] = []
+          for (const hint of result ?? []) {
+            const pos = mapping.mapPosition(plugin.uri, hint.position)
+            decorations.push(Decoration.widget({ widget: new InlayHintWidget(hint), side: 1 }).range(pos))
+          }
+          return Decoration.set(decorations, true)
+        })
+      )
+      if (id === this.requestId) {
+        this.view.dispatch({ effects: setInlayHints.of(hints) })
+      }
+    } catch (error) {
+      console.error('[LSP] Inlay hint request failed:', error)
+    }
+  }
+}, {
+  decorations: plugin => plugin.decorations
+})
+
+/**
+ * Show the language server's inlay hints in an editor that has an LSP plugin
+ */
+export function inlayHints(): Extension {
+  return inlayHintPlugin
+}
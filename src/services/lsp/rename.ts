@@ -0,0 +1,251 @@
+/**
+ * Rename with a preview for @codemirror/lsp-client
+ *
+ * The client package's renameSymbol applies the server's edits as soon as a name is
+ * entered. This command asks the server whether the symbol under the cursor can be
+ * renamed (textDocument/prepareRename), prompts for the new name, and shows every
+ * edit the rename would make, in every file, before applying them.
+ */
+
+import { Prec, type Extension, type Text } from '@codemirror/state'
+import { EditorView, getDialog, keymap, showDialog, type Command } from '@codemirror/view'
+import { LSPPlugin } from '@codemirror/lsp-client'
+import { uriToPath } from '../workspaceFiles'
+import {
+  applyWorkspaceEdit,
+  lspPositionToOffset,
+  workspaceEditChanges,
+  type LSPRange,
+  type LSPTextEdit,
+  type LSPWorkspaceEdit
+} from './workspaceEdit'
+
+type PrepareRenameResult = LSPRange | { range: LSPRange; placeholder: string } | { defaultBehavior: boolean } | null
+
+interface PreviewLine {
+  line: number
+  /**
+   * The line after the rename, split into unchanged and inserted text
+   */
+  segments: { text: string; inserted: boolean }[]
+}
+
+interface PreviewFile {
+  path: string
+  lines: PreviewLine[]
+}
+
+const RENAME_PANEL = 'cm-lsp-rename-panel'
+const PREVIEW_PANEL = 'cm-rename-preview'
+
+/**
+ * The current name of the symbol at a position, or null if the server says it
+ * can't be renamed
+ */
+async function prepareRename(view: EditorView, plugin: LSPPlugin, pos: number): Promise<string | null> {
+  const provider = plugin.client.serverCapabilities?.renameProvider
+  const word = view.state.wordAt(pos)
+  const wordText = word ? view.state.sliceDoc(word.from, word.to) : null
+
+  if (typeof provider !== 'object' || !provider.prepareProvider) return wordText
+
+  const result = await plugin.client.request<unknown, PrepareRenameResult>('textDocument/prepareRename', {
+    textDocument: { uri: plugin.uri },
+    position: plugin.toPosition(pos)
+  })
+
+  if (!result) return null
+  if ('placeholder' in result) return result.placeholder
+  if ('defaultBehavior' in result) return wordText
+
+  const doc = plugin.syncedDoc
+  return doc.sliceString(lspPositionToOffset(doc, result.start), lspPositionToOffset(doc, result.end))
+}
+
+/**
+ * Ask for the new name. Resolves to null when the prompt is cancelled.
+ */
+function promptForName(view: EditorView, current: string): Promise<string | null> {
+  const panel = getDialog(view, RENAME_PANEL)
+  if (panel) {
+    const input = panel.dom.querySelector('[name=name]') as HTMLInputElement
+    input.value = current
+    input.select()
+    return Promise.resolve(null)
+  }
+
+  const { close, result } = showDialog(view, {
+    label: view.state.phrase('New name'),
+    input: { name: 'name', value: current },
+    focus: true,
+    submitLabel: view.state.phrase('Preview'),
+    class: RENAME_PANEL
+  })
+
+  return result.then(form => {
+    view.dispatch({ effects: close })
+    if (!form) return null
+    return (form.elements.namedItem('name') as HTMLInputElement).value.trim()
+  })
+}
+
+/**
+ * Show each line the edits touch as it will read afterwards
+ */
+function previewLines(doc: Text, edits: LSPTextEdit[]): PreviewLine[] {
+  const byLine = new Map<number, LSPTextEdit[]>()
+  for (const edit of edits) {
+    byLine.set(edit.range.start.line, [...(byLine.get(edit.range.start.line) ?? []), edit])
+  }
+
+  return [...byLine.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([lineNumber, lineEdits]) => {
+      const line = doc.line(Math.min(lineNumber + 1, doc.lines))
+      const segments: PreviewLine['segments'] = []
+      let pos = line.from
+
+      for (const edit of [...lineEdits].sort((a, b) => a.range.start.character - b.range.start.character)) {
+        const from = lspPositionToOffset(doc, edit.range.start)
+        const to = Math.min(lspPositionToOffset(doc, edit.range.end), line.to)
+        if (from > pos) segments.push({ text: doc.sliceString(pos, from), inserted: false })
+        segments.push({ text: edit.newText, inserted: true })
+        pos = Math.max(pos, to)
+      }
+      if (pos < line.to) segments.push({ text: doc.sliceString(pos, line.to), inserted: false })
+
+      return { line: line.number, segments }
+    })
+}
+
+function buildPreview(plugin: LSPPlugin, edit: LSPWorkspaceEdit): PreviewFile[] {
+  const files: PreviewFile[] = []
+  for (const [uri, edits] of workspaceEditChanges(edit)) {
+    const file = plugin.client.workspace.getFile(uri)
+    if (!file || edits.length === 0) continue
+    files.push({ path: uriToPath(uri) ?? uri, lines: previewLines(file.doc, edits) })
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/**
+ * Show the edits a rename would make. Resolves to true when the user applies them.
+ */
+function confirmRename(view: EditorView, oldName: string, newName: string, files: PreviewFile[]): Promise<boolean> {
+  const occurrences = files.reduce((count, file) => count + file.lines.reduce((n, line) =>
+    n + line.segments.filter(segment => segment.inserted).length, 0), 0)
+
+  const { result } = showDialog(view, {
+    class: PREVIEW_PANEL,
+    focus: 'button[type=submit]',
+    content: (_view, close) => {
+      const form = document.createElement('form')
+
+      const summary = document.createElement('div')
+      summary.className = 'cm-rename-preview-summary'
+      summary.textContent = `Rename '${oldName}' to '${newName}': ${occurrences} ` +
+        `${occurrences === 1 ? 'occurrence' : 'occurrences'} in ${files.length} ${files.length === 1 ? 'file' : 'files'}`
+      form.appendChild(summary)
+
+      const list = document.createElement('div')
+      list.className = 'cm-rename-preview-list'
+      for (const file of files) {
+        const heading = document.createElement('div')
+        heading.className = 'cm-rename-preview-file'
+        heading.textContent = file.path
+        list.appendChild(heading)
+
+        for (const line of file.lines) {
+          const row = document.createElement('div')
+          row.className = 'cm-rename-preview-line'
+
+          const number = document.createElement('span')
+          number.className = 'cm-rename-preview-line-number'
+          number.textContent = String(line.line)
+          row.appendChild(number)
+
+          const code = document.createElement('code')
+          for (const segment of line.segments) {
+            const span = document.createElement(segment.inserted ? 'mark' : 'span')
+            span.textContent = segment.text
+            code.appendChild(span)
+          }
+          row.appendChild(code)
+          list.appendChild(row)
+        }
+      }
+      form.appendChild(list)
+
+      const actions = document.createElement('div')
+      actions.className = 'cm-rename-preview-actions'
+      const apply = document.createElement('button')
+      apply.type = 'submit'
+      apply.className = 'cm-button'
+      apply.textContent = view.state.phrase('Apply')
+      const cancel = document.createElement('button')
+      cancel.type = 'button'
+      cancel.className = 'cm-button'
+      cancel.textContent = view.state.phrase('Cancel')
+      cancel.addEventListener('click', close)
+      actions.append(apply, cancel)
+      form.appendChild(actions)
+
+      return form
+    }
+  })
+
+  return result.then(form => form !== null)
+}
+
+function showMessage(view: EditorView, message: string): void {
+  showDialog(view, { label: view.state.phrase(message), class: 'cm-lsp-message', top: true })
+}
+
+async function runRename(view: EditorView, plugin: LSPPlugin): Promise<void> {
+  plugin.client.sync()
+  const oldName = await prepareRename(view, plugin, view.state.selection.main.head)
+  if (oldName === null) {
+    showMessage(view, 'This symbol cannot be renamed')
+    return
+  }
+
+  const newName = await promptForName(view, oldName)
+  if (!newName || newName === oldName) return
+
+  plugin.client.sync()
+  await plugin.client.withMapping(async mapping => {
+    const edit = await plugin.client.request<unknown, LSPWorkspaceEdit | null>('textDocument/rename', {
+      textDocument: { uri: plugin.uri },
+      position: plugin.toPosition(view.state.selection.main.head),
+      newName
+    })
+
+    const files = edit ? buildPreview(plugin, edit) : []
+    if (!edit || files.length === 0) {
+      showMessage(view, 'The rename did not produce any edits')
+      return
+    }
+
+    if (await confirmRename(view, oldName, newName, files)) {
+      applyWorkspaceEdit(plugin.client, edit, 'rename', mapping)
+    }
+  })
+}
+
+/**
+ * Rename the symbol at the cursor after previewing the edits
+ */
+export const renameSymbol: Command = view => {
+  const plugin = LSPPlugin.get(view)
+  if (!plugin || !plugin.client.serverCapabilities?.renameProvider) return false
+
+  runRename(view, plugin).catch(error => plugin.reportError('Rename failed', error))
+  return true
+}
+
+/**
+ * Bind F2 to renameSymbol, in place of the client package's rename without preview
+ */
+export function renameWithPreview(): Extension {
+  return Prec.high(keymap.of([{ key: 'F2', run: renameSymbol, preventDefault: true }]))
+}
@@ -0,0 +1,199 @@
+/**
+ * Semantic token highlighting for @codemirror/lsp-client
+ *
+ * The Lezer Python grammar only knows syntax, so it can't tell a class from a
+ * function or a type parameter from a variable. This extension asks the server for
+ * textDocument/semanticTokens (using deltas when the server supports them) and adds
+ * a mark for each token, with classes `cm-semantic-<type>` and
+ * `cm-semantic-mod-<modifier>`.
+ */
+
+import { StateEffect, type Extension, type Range } from '@codemirror/state'
+import { Decoration, ViewPlugin, type DecorationSet, type EditorView, type ViewUpdate } from '@codemirror/view'
+import { LSPPlugin, type LSPClientExtension, type WorkspaceMapping } from '@codemirror/lsp-client'
+
+interface SemanticTokensLegend {
+  tokenTypes: string[]
+  tokenModifiers: string[]
+}
+
+interface SemanticTokens {
+  resultId?: string
+  data: number[]
+}
+
+interface SemanticTokensDelta {
+  resultId?: string
+  edits: { start: number; deleteCount: number; data?: number[] }[]
+}
+
+// Wait for typing to pause before asking the server again
+const REQUEST_DELAY = 300
+
+const setSemanticTokens = StateEffect.define<DecorationSet>()
+
+const markCache = new Map<string, Decoration>()
+
+function tokenMark(className: string): Decoration {
+  let mark = markCache.get(className)
+  if (!mark) {
+    mark = Decoration.mark({ class: className })
+    markCache.set(className, mark)
+  }
+  return mark
+}
+
+/**
+ * Turn LSP-encoded tokens into marks, mapping their positions from the synced
+ * document to the current one
+ */
+function decodeTokens(data: number[], legend: SemanticTokensLegend, uri: string, mapping: WorkspaceMapping): DecorationSet {
+  const marks: Range<Decoration>[] = []
+  let line = 0
+  let character = 0
+
+  for (let i = 0; i + 4 < data.length; i += 5) {
+    line += data[i]
+    character = data[i] === 0 ? character + data[i + 1] : data[i + 1]
+
+    const type = legend.tokenTypes[data[i + 3]]
+    if (!type) continue
+
+    let className = `cm-semantic-${type}`
+    for (let bit = 0; bit < legend.tokenModifiers.length; bit++) {
+      if (data[i + 4] & (1 << bit)) className += ` cm-semantic-mod-${legend.tokenModifiers[bit]}`
+    }
+
+    const from = mapping.mapPosition(uri, { line, character }, 1)
+    const to = mapping.mapPosition(uri, { line, character: character + data[i + 2] }, -1)
+    if (to > from) marks.push(tokenMark(className).range(from, to))
+  }
+
+  return Decoration.set(marks, true)
+}
+
+const semanticTokenPlugin = ViewPlugin.fromClass(class {
+  decorations: DecorationSet = Decoration.none
+  private view: EditorView
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private requestId = 0
+  // The server's last result, the base for delta requests
+  private resultId: string | null = null
+  private data: number[] = []
+
+  constructor(view: EditorView) {
+    this.view = view
+    const plugin = LSPPlugin.get(view)
+    // The server's capabilities are only known once it has initialized
+    plugin?.client.initializing.then(() => this.schedule(), () => {})
+  }
+
+  update(update: ViewUpdate) {
+    for (const tr of update.transactions) {
+      for (const effect of tr.effects) {
+        if (effect.is(setSemanticTokens)) this.decorations = effect.value
+      }
+    }
+    if (update.docChanged) {
+      this.decorations = this.decorations.map(update.changes)
+      this.schedule()
+    }
+  }
+
+  destroy() {
+    if (this.timer !== null) clearTimeout(this.timer)
+    this.requestId++
+  }
+
+  private schedule() {
+    if (this.timer !== null) clearTimeout(this.timer)
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.request()
+    }, REQUEST_DELAY)
+  }
+
+  private async request() {
+    const plugin = LSPPlugin.get(this.view)
+    const provider = plugin?.client.serverCapabilities?.semanticTokensProvider
+    if (!plugin || !provider?.full) return
+
+    const id = ++this.requestId
+    const useDelta = typeof provider.full === 'object' && provider.full.delta === true && this.resultId !== null
+    plugin.client.sync()
+
+    try {
+      const decorations = await plugin.client.withMapping(mapping => {
+        const response = useDelta
+          ? plugin.client.request<unknown, SemanticTokens | SemanticTokensDelta | null>('textDocument/semanticTokens/full/delta', {
+            textDocument: { uri: plugin.uri },
+            previousResultId: this.resultId
+          })
+          : plugin.client.request<unknown, SemanticTokens | null>('textDocument/semanticTokens/full', {
+            textDocument: { uri: plugin.uri }
+          })
+
+        return response.then(result => {
+          if (!result || id !== this.requestId) return null
+
+          if ('edits' in result) {
+            // Apply the edits back to front so earlier offsets stay valid
+            const data = [...this.data]
+            for (const edit of [...result.edits].sort((a, b) => b.start - a.start)) {
+              data.splice(edit.start, edit.deleteCount, ...(edit.data ?? []))
+            }
+            this.data = data
+          } else {
+            this.data = result.data
+          }
+          this.resultId = result.resultId ?? null
+
+          return decodeTokens(this.data, provider.legend, plugin.uri, mapping)
+        })
+      })
+
+      if (decorations && id === this.requestId) {
+        this.view.dispatch({ effects: setSemanticTokens.of(decorations) })
+      }
+    } catch (error) {
+      // Start over with a full request next time
+      this.resultId = null
+      console.error('[LSP] Semantic tokens request failed:', error)
+    }
+  }
+}, {
+  decorations: plugin => plugin.decorations
+})
+
+/**
+ * Client capabilities announcing semantic token support, for LSPClient's extensions.
+ * Servers only offer semantic tokens to clients that ask for them.
+ */
+export const semanticTokensCapabilities: LSPClientExtension = {
+  clientCapabilities: {
+    textDocument: {
+      semanticTokens: {
+        requests: { full: { delta: true } },
+        tokenTypes: [
+          'namespace', 'type', 'class', 'enum', 'interface', 'struct', 'typeParameter', 'parameter',
+          'variable', 'property', 'enumMember', 'event', 'function', 'method', 'macro', 'keyword',
+          'modifier', 'comment', 'string', 'number', 'regexp', 'operator', 'decorator'
+        ],
+        tokenModifiers: [
+          'declaration', 'definition', 'readonly', 'static', 'deprecated', 'abstract', 'async',
+          'modification', 'documentation', 'defaultLibrary'
+        ],
+        formats: ['relative'],
+        multilineTokenSupport: false,
+        overlappingTokenSupport: false
+      }
+    }
+  }
+}
+
+/**
+ * Highlight the document with the language server's semantic tokens
+ */
+export function semanticTokens(): Extension {
+  return semanticTokenPlugin
+}
@@ -0,0 +1,160 @@
+/**
+ * LSP Traffic Log
+ *
+ * Records every JSON-RPC message that passes through the language server transports
+ * (see TracedTransport), pairs responses with their requests to measure latency,
+ * and exports the session as JSON for bug reports.
+ */
+
+export type TrafficDirection = 'send' | 'receive'
+
+export type TrafficKind = 'request' | 'response' | 'notification' | 'invalid'
+
+export interface TrafficEntry {
+  seq: number
+  /**
+   * When the message passed through the transport, in milliseconds since the epoch
+   */
+  time: number
+  /**
+   * The server the message was exchanged with, e.g. "ty" or "pyright (comparison)"
+   */
+  source: string
+  /**
+   * 'send' for messages to the server, 'receive' for messages from it
+   */
+  direction: TrafficDirection
+  kind: TrafficKind
+  /**
+   * The method, or for a response, the method of the request it answers
+   */
+  method?: string
+  id?: number | string
+  /**
+   * For a response, milliseconds since its request
+   */
+  latency?: number
+  /**
+   * For a request, the seq of its response once it arrives
+   */
+  responseSeq?: number
+  /**
+   * For a response, whether it is an error response
+   */
+  isError?: boolean
+  message: unknown
+}
+
+interface JSONRPCMessage {
+  id?: number | string
+  method?: string
+  error?: unknown
+}
+
+// Older entries are dropped past this, so a long session does not grow without bound
+const MAX_ENTRIES = 2000
+// Listeners are notified at most this often, in milliseconds
+const NOTIFY_INTERVAL = 100
+
+let entries: TrafficEntry[] = []
+let nextSeq = 1
+// Requests waiting for a response, by source, direction and id
+const openRequests = new Map<string, TrafficEntry>()
+const listeners = new Set<() => void>()
+let notifyTimer: ReturnType<typeof setTimeout> | null = null
+
+function requestKey(source: string, direction: TrafficDirection, id: number | string): string {
+  return `${source}\n${direction}\n${id}`
+}
+
+function scheduleNotify() {
+  if (notifyTimer !== null) return
+  notifyTimer = setTimeout(() => {
+    notifyTimer = null
+    listeners.forEach(listener => listener())
+  }, NOTIFY_INTERVAL)
+}
+
+/**
+ * Record a message passing through a transport
+ */
+export function recordTraffic(source: string, direction: TrafficDirection, raw: string): void {
+  let message: JSONRPCMessage | null = null
+  try {
+    message = JSON.parse(raw) as JSONRPCMessage
+  } catch {
+    // Kept as the raw string below
+  }
+
+  const entry: TrafficEntry = {
+    seq: nextSeq++,
+    time: Date.now(),
+    source,
+    direction,
+    kind: 'invalid',
+    message: message ?? raw
+  }
+
+  if (message?.method !== undefined) {
+    entry.method = message.method
+    entry.id = message.id
+    entry.kind = message.id === undefined ? 'notification' : 'request'
+    if (message.id !== undefined) {
+      openRequests.set(requestKey(source, direction, message.id), entry)
+    }
+  } else if (message?.id !== undefined) {
+    // A response answers a request that went the other way
+    entry.kind = 'response'
+    entry.id = message.id
+    entry.isError = message.error !== undefined
+    const key = requestKey(source, direction === 'send' ? 'receive' : 'send', message.id)
+    const request = openRequests.get(key)
+    if (request) {
+      openRequests.delete(key)
+      entry.method = request.method
+      entry.latency = entry.time - request.time
+      request.responseSeq = entry.seq
+    }
+  }
+
+  entries.push(entry)
+  if (entries.length > MAX_ENTRIES) {
+    entries = entries.slice(entries.length - MAX_ENTRIES)
+  }
+  scheduleNotify()
+}
+
+/**
+ * The recorded messages, oldest first
+ */
+export function getTrafficEntries(): readonly TrafficEntry[] {
+  return entries
+}
+
+/**
+ * Be notified when messages are recorded or the log is cleared. Returns a function
+ * that unsubscribes.
+ */
+export function subscribeTraffic(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function clearTraffic(): void {
+  entries = []
+  openRequests.clear()
+  scheduleNotify()
+}
+
+/**
+ * The recorded session as pretty-printed JSON
+ */
+export function exportTraffic(): string {
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    entries
+  }, null, 2)
+}
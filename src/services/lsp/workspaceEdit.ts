@@ -0,0 +1,103 @@
+/**
+ * Applying LSP WorkspaceEdits to the playground workspace
+ *
+ * Edits go through the client's Workspace, so files with an editor are changed in
+ * their view and other files are changed in the workspace directly (see
+ * PlaygroundWorkspace.updateFile).
+ */
+
+import type { LSPClient, WorkspaceMapping } from '@codemirror/lsp-client'
+import type { Text } from '@codemirror/state'
+
+export interface LSPPosition {
+  line: number
+  character: number
+}
+
+export interface LSPRange {
+  start: LSPPosition
+  end: LSPPosition
+}
+
+export interface LSPTextEdit {
+  range: LSPRange
+  newText: string
+}
+
+interface LSPTextDocumentEdit {
+  textDocument: { uri: string; version?: number | null }
+  edits: LSPTextEdit[]
+}
+
+export interface LSPWorkspaceEdit {
+  changes?: Record<string, LSPTextEdit[]>
+  /**
+   * Text document edits, possibly mixed with file operations (create, rename,
+   * delete), which the playground does not support
+   */
+  documentChanges?: (LSPTextDocumentEdit | { kind: string })[]
+}
+
+/**
+ * Convert an LSP position to an offset in a document, clamped to the document
+ */
+export function lspPositionToOffset(doc: Text, position: LSPPosition): number {
+  const line = doc.line(Math.min(Math.max(position.line + 1, 1), doc.lines))
+  return Math.min(line.from + position.character, line.to)
+}
+
+/**
+ * Group the text edits of a WorkspaceEdit by document URI
+ */
+export function workspaceEditChanges(edit: LSPWorkspaceEdit): Map<string, LSPTextEdit[]> {
+  const changes = new Map<string, LSPTextEdit[]>()
+  const add = (uri: string, edits: LSPTextEdit[]) => {
+    changes.set(uri, [...(changes.get(uri) ?? []), ...edits])
+  }
+
+  for (const [uri, edits] of Object.entries(edit.changes ?? {})) {
+    add(uri, edits)
+  }
+  for (const change of edit.documentChanges ?? []) {
+    if ('textDocument' in change) {
+      add(change.textDocument.uri, change.edits)
+    } else {
+      console.warn(`[LSP] Ignoring unsupported ${change.kind} file operation`)
+    }
+  }
+  return changes
+}
+
+/**
+ * Apply a WorkspaceEdit whose positions refer to the documents as last synced to
+ * the server. Pass the mapping the request was made under to map them through
+ * edits made since. Returns the number of files that were changed.
+ */
+export function applyWorkspaceEdit(
+  client: LSPClient,
+  edit: LSPWorkspaceEdit,
+  userEvent = 'lsp.edit',
+  mapping?: WorkspaceMapping
+): number {
+  let changed = 0
+
+  for (const [uri, edits] of workspaceEditChanges(edit)) {
+    const file = client.workspace.getFile(uri)
+    if (!file || edits.length === 0) continue
+
+    const toOffset = (position: LSPPosition) =>
+      mapping ? mapping.mapPosition(uri, position) : lspPositionToOffset(file.doc, position)
+
+    client.workspace.updateFile(uri, {
+      changes: edits.map(textEdit => ({
+        from: toOffset(textEdit.range.start),
+        to: toOffset(textEdit.range.end),
+        insert: textEdit.newText
+      })),
+      userEvent
+    })
+    changed++
+  }
+
+  return changed
+}
@@ -0,0 +1,162 @@
+/**
+ * Permalink Service
+ *
+ * Encodes the playground session (workspace files, checker, Python version and
+ * settings) into a compressed URL hash and restores it again.
+ */
+
+import type { PythonVersion, TypeChecker } from '../App'
+import { PYTHON_VERSIONS } from '../constants'
+import { isTypeChecker } from './checkers'
+import { validateFilePath, type PlaygroundFile } from './workspaceFiles'
+
+const HASH_PREFIX = '#state='
+const STATE_VERSION = 3
+
+export interface PlaygroundSettings {
+  compareMode: boolean
+  inlayHints: boolean
+  /**
+   * The selected build of each checker, for checkers not on the bundled build
+   */
+  checkerBuilds: Partial<Record<TypeChecker, string>>
+  /**
+   * The build the selected checker is compared with, if any
+   */
+  compareBuild: string | null
+  versionMatrix: boolean
+}
+
+export interface PlaygroundState {
+  files: PlaygroundFile[]
+  activePath: string
+  typeChecker: TypeChecker
+  pythonVersion: PythonVersion
+  settings: PlaygroundSettings
+}
+
+interface SerializedState extends PlaygroundState {
+  v: number
+}
+
+/**
+ * Version 1 links carried a single buffer instead of a file list
+ */
+interface SerializedStateV1 extends Omit<PlaygroundState, 'files' | 'activePath'> {
+  v: 1
+  code: string
+}
+
+async function pipeThrough(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+function parseFiles(data: unknown): PlaygroundFile[] | null {
+  if (!Array.isArray(data) || data.length === 0) return null
+
+  const files: PlaygroundFile[] = []
+  for (const file of data) {
+    if (typeof file?.path !== 'string' || typeof file?.content !== 'string') return null
+    if (validateFilePath(file.path, files.map(f => f.path))) return null
+    files.push({ path: file.path, content: file.content })
+  }
+  return files
+}
+
+function parseCheckerBuilds(data: unknown): Partial<Record<TypeChecker, string>> {
+  if (typeof data !== 'object' || data === null) return {}
+  return Object.fromEntries(
+    Object.entries(data).filter(([checker, build]) => isTypeChecker(checker) && typeof build === 'string')
+  )
+}
+
+/**
+ * Validate a decoded state object, filling in defaults for missing settings
+ */
+function parseState(data: unknown): PlaygroundState | null {
+  if (typeof data !== 'object' || data === null) return null
+
+  const state = data as Partial<SerializedState> & Partial<Pick<SerializedStateV1, 'code'>>
+  let files: PlaygroundFile[] | null
+  let activePath: string
+  if (state.v === 1) {
+    if (typeof state.code !== 'string') return null
+    files = [{ path: 'main.py', content: state.code }]
+    activePath = 'main.py'
+  } else if (state.v === 2 || state.v === STATE_VERSION) {
+    files = parseFiles(state.files)
+    activePath = typeof state.activePath === 'string' ? state.activePath : ''
+  } else {
+    return null
+  }
+
+  if (!files) return null
+  if (!isTypeChecker(state.typeChecker)) return null
+  if (!PYTHON_VERSIONS.includes(state.pythonVersion as PythonVersion)) return null
+
+  return {
+    files,
+    activePath: files.some(file => file.path === activePath) ? activePath : files[0].path,
+    typeChecker: state.typeChecker,
+    pythonVersion: state.pythonVersion as PythonVersion,
+    settings: {
+      compareMode: state.settings?.compareMode === true,
+      // Older links predate the setting; hints are on by default
+      inlayHints: state.settings?.inlayHints !== false,
+      // Version 2 links predate checker builds and the version matrix, and ran the
+      // bundled builds without the matrix
+      checkerBuilds: parseCheckerBuilds(state.settings?.checkerBuilds),
+      compareBuild: typeof state.settings?.compareBuild === 'string' ? state.settings.compareBuild : null,
+      versionMatrix: state.settings?.versionMatrix === true
+    }
+  }
+}
+
+/**
+ * Encode a playground state into a URL hash (including the leading '#')
+ */
+export async function encodeStateToHash(state: PlaygroundState): Promise<string> {
+  const serialized: SerializedState = { v: STATE_VERSION, ...state }
+  const bytes = new TextEncoder().encode(JSON.stringify(serialized))
+  const compressed = await pipeThrough(bytes, new CompressionStream('deflate-raw'))
+  return `${HASH_PREFIX}${toBase64Url(compressed)}`
+}
+
+/**
+ * Decode a URL hash produced by encodeStateToHash.
+ * Returns null if the hash does not contain a valid playground state.
+ */
+export async function decodeStateFromHash(hash: string): Promise<PlaygroundState | null> {
+  if (!hash.startsWith(HASH_PREFIX)) return null
+
+  try {
+    const compressed = fromBase64Url(hash.slice(HASH_PREFIX.length))
+    const bytes = await pipeThrough(compressed, new DecompressionStream('deflate-raw'))
+    return parseState(JSON.parse(new TextDecoder().decode(bytes)))
+  } catch (error) {
+    console.error('Failed to decode permalink:', error)
+    return null
+  }
+}
+
+/**
+ * Build a full shareable URL for a playground state
+ */
+export async function createPermalink(state: PlaygroundState): Promise<string> {
+  const hash = await encodeStateToHash(state)
+  return `${window.location.origin}${window.location.pathname}${window.location.search}${hash}`
+}
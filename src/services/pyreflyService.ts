@@ -1,21 +0,0 @@
-import type { Diagnostic, PythonVersion } from '../App'
-
-// Pyrefly is also a Rust-based type checker that can be compiled to WASM
-
-export async function checkWithPyrefly(
-  code: string,
-  pythonVersion: PythonVersion
-): Promise<Diagnostic[]> {
-  // TODO: Implement Pyrefly WASM integration
-  // Similar to ty, we'll need to:
-  // 1. Load the Pyrefly WASM module
-  // 2. Initialize it with the Python version
-  // 3. Pass the code to the WASM module
-  // 4. Parse and return diagnostics
-
-  console.log('Checking with Pyrefly, Python version:', pythonVersion)
-  console.log('Code:', code)
-
-  // Placeholder
-  return []
-}
@@ -1,20 +0,0 @@
-import type { Diagnostic, PythonVersion } from '../App'
-
-// Pyright integration will be implemented via server-side approach
-// Browser-based integration proved too complex due to filesystem mocking issues
-export async function checkWithPyright(
-  code: string,
-  pythonVersion: PythonVersion
-): Promise<Diagnostic[]> {
-  // TODO: Implement server-side Pyright integration
-  console.log('Checking with Pyright, Python version:', pythonVersion)
-  console.log('Code:', code)
-
-  return [{
-    start: { line: 1, column: 1 },
-    end: { line: 1, column: 1 },
-    message: 'Pyright integration not yet implemented (will use server-side approach)',
-    severity: 'info',
-    source: 'Pyright'
-  }]
-}
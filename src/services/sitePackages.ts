@@ -0,0 +1,199 @@
+/**
+ * Virtual site-packages
+ *
+ * Local wheels (.whl), source distributions (.tar.gz, .zip) and stub-only packages
+ * (e.g. types-requests) are unpacked in the browser into a virtual site-packages
+ * directory. Only what the checkers read is kept: Python sources, stubs and py.typed
+ * markers. Paths are relative to site-packages, e.g. "requests/__init__.py" or
+ * "requests-stubs/api.pyi", and every checker searches the directory like the
+ * site-packages of a virtual environment.
+ */
+
+import type { PlaygroundFile } from './workspaceFiles'
+
+export interface InstalledPackage {
+  /**
+   * File name of the archive the package was installed from
+   */
+  archive: string
+  files: PlaygroundFile[]
+}
+
+// Top-level sdist entries that are not part of the installed package
+const SDIST_EXCLUDED_DIRECTORIES = new Set(['tests', 'test', 'testing', 'docs', 'doc', 'examples', 'benchmarks'])
+const SDIST_EXCLUDED_FILES = new Set(['setup.py', 'conftest.py', 'noxfile.py'])
+
+const textDecoder = new TextDecoder()
+
+/**
+ * Whether a file is read by the checkers when it is installed
+ */
+function isPackageFile(path: string): boolean {
+  return path.endsWith('.py') || path.endsWith('.pyi') || path.endsWith('/py.typed')
+}
+
+async function decompress(data: Uint8Array<ArrayBuffer>, format: CompressionFormat): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Read every file of a zip archive (wheels are zip archives), keyed by path
+ */
+async function readZip(data: Uint8Array<ArrayBuffer>, include: (path: string) => boolean): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+
+  // The end of central directory record is at the end, before an optional comment
+  let end = data.length - 22
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--
+  if (end < 0) throw new Error('Not a zip archive')
+
+  const entryCount = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('Zip64 archives are not supported')
+  }
+
+  const files = new Map<string, Uint8Array>()
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt zip central directory')
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const headerOffset = view.getUint32(offset + 42, true)
+    const path = textDecoder.decode(data.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (path.endsWith('/') || !include(path)) continue
+
+    // The local header repeats the name, with its own extra field
+    const dataStart = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true)
+    const content = data.subarray(dataStart, dataStart + compressedSize)
+    if (method === 0) {
+      files.set(path, content)
+    } else if (method === 8) {
+      files.set(path, await decompress(content, 'deflate-raw'))
+    } else {
+      throw new Error(`${path} uses an unsupported zip compression method (${method})`)
+    }
+  }
+  return files
+}
+
+function readTarString(block: Uint8Array, start: number, length: number): string {
+  const field = block.subarray(start, start + length)
+  const nul = field.indexOf(0)
+  return textDecoder.decode(nul === -1 ? field : field.subarray(0, nul))
+}
+
+/**
+ * Read every regular file of a (decompressed) tar archive, keyed by path
+ */
+function readTar(data: Uint8Array, include: (path: string) => boolean): Map<string, Uint8Array> {
+  const files = new Map<string, Uint8Array>()
+  // Long names come in a preceding GNU longname or pax extended header entry
+  let longName: string | null = null
+  let offset = 0
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512)
+    if (header.every(byte => byte === 0)) break
+
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8)
+    const type = String.fromCharCode(header[156])
+    const prefix = readTarString(header, 345, 155)
+    const name = readTarString(header, 0, 100)
+    const content = data.subarray(offset + 512, offset + 512 + size)
+    offset += 512 + Math.ceil(size / 512) * 512
+
+    if (type === 'L') {
+      longName = readTarString(content, 0, content.length)
+      continue
+    }
+    if (type === 'x') {
+      const pathRecord = textDecoder.decode(content).split('\n').find(record => / path=/.test(record))
+      longName = pathRecord ? pathRecord.slice(pathRecord.indexOf('=') + 1) : null
+      continue
+    }
+
+    const path = longName ?? (prefix ? `${prefix}/${name}` : name)
+    longName = null
+    if ((type === '0' || type === '\0') && include(path)) {
+      files.set(path, content)
+    }
+  }
+  return files
+}
+
+/**
+ * Where a wheel file is installed, or null for metadata and data files
+ */
+function wheelInstallPath(path: string): string | null {
+  const [first, second, ...rest] = path.split('/')
+  if (first.endsWith('.dist-info')) return null
+  if (first.endsWith('.data')) {
+    return second === 'purelib' || second === 'platlib' ? rest.join('/') : null
+  }
+  return path
+}
+
+/**
+ * Where an sdist file is installed: relative to the project directory, or to its
+ * src directory for the src layout. Null for tests, docs and build scripts.
+ */
+function sdistInstallPath(path: string, srcLayout: boolean): string | null {
+  const segments = path.split('/').slice(1)
+  if (srcLayout) {
+    return segments[0] === 'src' ? segments.slice(1).join('/') : null
+  }
+  if (segments.length === 1 ? SDIST_EXCLUDED_FILES.has(segments[0]) : SDIST_EXCLUDED_DIRECTORIES.has(segments[0])) {
+    return null
+  }
+  return segments.join('/')
+}
+
+function toPackageFiles(entries: Map<string, Uint8Array>, installPath: (path: string) => string | null): PlaygroundFile[] {
+  return [...entries].flatMap(([path, content]) => {
+    const target = installPath(path)
+    return target && isPackageFile(`/${target}`) ? [{ path: target, content: textDecoder.decode(content) }] : []
+  })
+}
+
+/**
+ * Unpack a wheel, sdist or stub package archive into site-packages files
+ */
+export async function unpackArchive(archive: File): Promise<InstalledPackage> {
+  const name = archive.name
+  const data = new Uint8Array(await archive.arrayBuffer())
+  const keep = (path: string) => isPackageFile(`/${path}`)
+
+  let files: PlaygroundFile[]
+  if (name.endsWith('.whl')) {
+    files = toPackageFiles(await readZip(data, keep), wheelInstallPath)
+  } else if (name.endsWith('.tar.gz') || name.endsWith('.tgz') || name.endsWith('.zip')) {
+    const entries = name.endsWith('.zip')
+      ? await readZip(data, keep)
+      : readTar(await decompress(data, 'gzip'), keep)
+    const srcLayout = [...entries.keys()].some(path => path.split('/')[1] === 'src')
+    files = toPackageFiles(entries, path => sdistInstallPath(path, srcLayout))
+  } else {
+    throw new Error(`${name} is not a wheel (.whl) or source distribution (.tar.gz, .zip)`)
+  }
+
+  if (!files.some(file => file.path.endsWith('.py') || file.path.endsWith('.pyi'))) {
+    throw new Error(`${name} contains no Python modules or stubs`)
+  }
+  return { archive: name, files }
+}
+
+/**
+ * The combined site-packages of the installed packages. A file installed by a later
+ * package replaces the same file from an earlier one, like pip would.
+ */
+export function sitePackageFiles(packages: InstalledPackage[]): PlaygroundFile[] {
+  const byPath = new Map<string, string>()
+  packages.forEach(pkg => pkg.files.forEach(file => byPath.set(file.path, file.content)))
+  return [...byPath].map(([path, content]) => ({ path, content }))
+}
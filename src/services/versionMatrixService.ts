@@ -0,0 +1,205 @@
+/**
+ * Version Matrix Service
+ *
+ * Runs one checker on the workspace under every supported Python version at once
+ * and lines up the diagnostics, so it shows which ones appear or disappear as the
+ * target version changes.
+ */
+
+import type { Diagnostic, DiagnosticRange, PythonVersion } from '../App'
+import { PYTHON_VERSIONS } from '../constants'
+import { HeadlessLSPSession } from './lsp/HeadlessLSPSession'
+import { TracedTransport } from './lsp/TracedTransport'
+import type {
+  CheckerBuild,
+  CheckerInitializationOptions,
+  CheckerSettings,
+  LSPCheckerDefinition
+} from './checkers'
+import { toAppDiagnostic } from './lsp/diagnostics'
+import { uriToPath, type PlaygroundFile } from './workspaceFiles'
+
+export type VersionMatrixResults = Partial<Record<PythonVersion, Diagnostic[]>>
+
+export interface VersionMatrixSessionOptions {
+  checker: LSPCheckerDefinition
+  /**
+   * The build of the checker to run, the bundled one if omitted
+   */
+  build?: CheckerBuild
+  /**
+   * Installed packages, with paths relative to site-packages
+   */
+  sitePackages: PlaygroundFile[]
+  /**
+   * Checker settings from the workspace's configuration files
+   */
+  settings: CheckerSettings
+  onDiagnostics: (version: PythonVersion, diagnostics: Diagnostic[]) => void
+  onError?: (version: PythonVersion, error: Error) => void
+}
+
+/**
+ * Keeps one headless language server per Python version alive and feeds it the
+ * workspace
+ */
+export class VersionMatrixSession {
+  private sessions = new Map<PythonVersion, HeadlessLSPSession>()
+  private files: PlaygroundFile[] | null = null
+  private closed = false
+  private options: VersionMatrixSessionOptions
+
+  constructor(options: VersionMatrixSessionOptions) {
+    this.options = options
+    this.startAll()
+  }
+
+  /**
+   * Send the current workspace files to every version
+   */
+  update(files: PlaygroundFile[]): void {
+    this.files = files
+    this.sessions.forEach(session => session.syncFiles(files))
+  }
+
+  /**
+   * Shut down every server started by this session
+   */
+  close(): void {
+    this.closed = true
+    this.sessions.forEach(session => session.close())
+    this.sessions.clear()
+  }
+
+  // Servers are started one after another rather than all at once, so that six
+  // copies of the same checker do not compete for the CPU while loading
+  private async startAll(): Promise<void> {
+    for (const version of PYTHON_VERSIONS) {
+      if (this.closed) return
+      await this.start(version)
+    }
+  }
+
+  private async start(pythonVersion: PythonVersion): Promise<void> {
+    const { checker, build, sitePackages, settings, onDiagnostics, onError } = this.options
+    let session: HeadlessLSPSession | null = null
+
+    try {
+      const transport = new TracedTransport(
+        await checker.createTransport({ pythonVersion, build, files: this.files ?? [], settings }),
+        `${checker.id} (${pythonVersion})`
+      )
+      const byUri = new Map<string, Diagnostic[]>()
+
+      session = new HeadlessLSPSession(transport, {
+        initializationOptions: { pythonVersion, sitePackages } satisfies CheckerInitializationOptions,
+        onDiagnostics: (uri, diagnostics) => {
+          const path = uriToPath(uri)
+          if (path === null || this.closed) return
+          byUri.set(uri, diagnostics.map(diag => toAppDiagnostic(diag, checker.id, path)))
+          onDiagnostics(pythonVersion, [...byUri.values()].flat())
+        }
+      })
+
+      if (this.closed) {
+        session.close()
+        return
+      }
+
+      await session.initialize()
+
+      if (this.closed) {
+        session.close()
+        return
+      }
+
+      if (checker.configurationParams) {
+        session.notify('workspace/didChangeConfiguration', checker.configurationParams(settings))
+      }
+
+      this.sessions.set(pythonVersion, session)
+      if (this.files !== null) {
+        session.syncFiles(this.files)
+      }
+    } catch (error) {
+      session?.close()
+      console.error(`[Version matrix] Failed to start ${checker.id} for Python ${pythonVersion}:`, error)
+      onError?.(pythonVersion, error as Error)
+    }
+  }
+}
+
+export interface VersionMatrixRow {
+  key: string
+  path?: string
+  start?: DiagnosticRange
+  end?: DiagnosticRange
+  /**
+   * The diagnostic as reported by the newest version that has it
+   */
+  diagnostic: Diagnostic
+  byVersion: Partial<Record<PythonVersion, boolean>>
+  /**
+   * 'all' when every checked version reports it, 'since' when it appears at some
+   * version and stays, 'until' when it disappears at some version, 'mixed' otherwise
+   */
+  status: 'all' | 'since' | 'until' | 'mixed'
+  /**
+   * The first version with the diagnostic for 'since', the last one for 'until'
+   */
+  boundary?: PythonVersion
+}
+
+function diagnosticKey(diag: Diagnostic): string {
+  const range = diag.start
+    ? `${diag.start.line}:${diag.start.column}-${(diag.end ?? diag.start).line}:${(diag.end ?? diag.start).column}`
+    : 'unknown'
+  return `${diag.path}:${range}:${diag.code ?? diag.message}`
+}
+
+/**
+ * Group the diagnostics of every version into rows keyed by file, range and rule
+ * (or message, for diagnostics without a rule code). Versions without results yet
+ * are left out of the status.
+ */
+export function matchVersions(results: VersionMatrixResults, versions: readonly PythonVersion[]): VersionMatrixRow[] {
+  const rows = new Map<string, VersionMatrixRow>()
+  const checked = versions.filter(version => results[version] !== undefined)
+
+  for (const version of checked) {
+    for (const diag of results[version]!) {
+      const key = diagnosticKey(diag)
+      let row = rows.get(key)
+      if (!row) {
+        row = { key, path: diag.path, start: diag.start, end: diag.end, diagnostic: diag, byVersion: {}, status: 'mixed' }
+        rows.set(key, row)
+      }
+      row.diagnostic = diag
+      row.byVersion[version] = true
+    }
+  }
+
+  for (const row of rows.values()) {
+    const present = checked.map(version => row.byVersion[version] === true)
+    const first = present.indexOf(true)
+    const last = present.lastIndexOf(true)
+    const contiguous = present.slice(first, last + 1).every(Boolean)
+    if (first === 0 && last === checked.length - 1) {
+      row.status = contiguous ? 'all' : 'mixed'
+    } else if (contiguous && last === checked.length - 1) {
+      row.status = 'since'
+      row.boundary = checked[first]
+    } else if (contiguous && first === 0) {
+      row.status = 'until'
+      row.boundary = checked[last]
+    }
+  }
+
+  return [...rows.values()].sort((a, b) => {
+    const byPath = (a.path ?? '').localeCompare(b.path ?? '')
+    if (byPath !== 0) return byPath
+    if (!a.start) return b.start ? 1 : 0
+    if (!b.start) return -1
+    return a.start.line - b.start.line || a.start.column - b.start.column
+  })
+}
@@ -0,0 +1,85 @@
+/**
+ * Virtual workspace model
+ *
+ * The playground workspace is a flat list of Python source and stub files with
+ * paths relative to the workspace root (e.g. "pkg/__init__.py"), plus optional
+ * checker configuration files at the root. Language servers see the Python files
+ * under file:///workspace.
+ */
+
+import { isConfigFile } from './checkerConfig'
+
+export interface PlaygroundFile {
+  path: string
+  content: string
+}
+
+export const WORKSPACE_ROOT_URI = 'file:///workspace'
+
+/**
+ * The virtual environment installed packages are seen in by the language servers,
+ * relative to the workspace root. Workspace paths cannot start with ".", so it never
+ * clashes with a workspace file.
+ */
+export const VIRTUAL_ENV_DIR = '.venv'
+export const SITE_PACKAGES_DIR = `${VIRTUAL_ENV_DIR}/lib/site-packages`
+
+const PATH_SEGMENT = /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/
+
+/**
+ * Convert a workspace-relative path to the URI used by the language servers
+ */
+export function pathToUri(path: string): string {
+  return `${WORKSPACE_ROOT_URI}/${path}`
+}
+
+/**
+ * Convert a language server URI back to a workspace-relative path.
+ * Returns null for URIs outside the workspace (e.g. typeshed stubs).
+ */
+export function uriToPath(uri: string): string | null {
+  const prefix = `${WORKSPACE_ROOT_URI}/`
+  return uri.startsWith(prefix) ? uri.slice(prefix.length) : null
+}
+
+/**
+ * Whether a workspace path is a Python source or stub file
+ */
+export function isPythonFile(path: string): boolean {
+  return path.endsWith('.py') || path.endsWith('.pyi')
+}
+
+export type FileLanguage = 'python' | 'json' | 'toml'
+
+/**
+ * Editor language for a workspace file
+ */
+export function fileLanguage(path: string): FileLanguage {
+  if (path.endsWith('.json')) return 'json'
+  if (path.endsWith('.toml')) return 'toml'
+  return 'python'
+}
+
+/**
+ * Validate a new file path. Returns an error message, or null if the path is valid.
+ */
+export function validateFilePath(path: string, existingPaths: string[]): string | null {
+  if (!isPythonFile(path) && !isConfigFile(path)) {
+    return 'File name must end with .py or .pyi, or be pyrightconfig.json, pyproject.toml or ty.toml at the workspace root'
+  }
+  if (!path.split('/').every(segment => PATH_SEGMENT.test(segment))) {
+    return 'Path segments may only contain letters, digits, "_", "-" and "."'
+  }
+  if (existingPaths.includes(path)) {
+    return `${path} already exists`
+  }
+  return null
+}
+
+/**
+ * Sort files so that directories group together and __init__ modules come first
+ */
+export function sortFiles(files: PlaygroundFile[]): PlaygroundFile[] {
+  const sortKey = (path: string) => path.replace(/__init__\.pyi?$/, '')
+  return [...files].sort((a, b) => sortKey(a.path).localeCompare(sortKey(b.path)) || a.path.localeCompare(b.path))
+}
@@ -0,0 +1,97 @@
+/**
+ * Message Queue
+ *
+ * Language server workers handle their messages one at a time, in arrival order, so
+ * a request that awaits never interleaves with the ones after it. Requests still
+ * waiting in the queue can be cancelled with $/cancelRequest, and position-based
+ * queries are dropped when a newer version of their document arrives.
+ */
+
+export interface QueuedMessage {
+  jsonrpc: '2.0'
+  id?: number | string
+  method: string
+  params?: unknown
+}
+
+export interface MessageQueueOptions<T extends QueuedMessage> {
+  /**
+   * Handle one message; the next one waits until the returned promise settles
+   */
+  handle: (message: T) => Promise<void>
+
+  /**
+   * Requests whose results are only useful for the document version they were made
+   * against. A queued one is dropped when a newer version of its document arrives.
+   */
+  supersedableMethods: ReadonlySet<string>
+}
+
+// JSON-RPC error code for a cancelled request
+const REQUEST_CANCELLED = -32800
+
+function documentUri(message: QueuedMessage): string | undefined {
+  return (message.params as { textDocument?: { uri?: string } } | undefined)?.textDocument?.uri
+}
+
+/**
+ * Answer a queued request that will not be handled
+ */
+function dropRequest(request: QueuedMessage, reason: string) {
+  // The client treats RequestCancelled as "no result", unlike ContentModified
+  self.postMessage({ jsonrpc: '2.0', id: request.id, error: { code: REQUEST_CANCELLED, message: reason } })
+}
+
+/**
+ * Create a queue for a worker's messages, returning the function that adds one
+ */
+export function createMessageQueue<T extends QueuedMessage>(options: MessageQueueOptions<T>): (message: T) => void {
+  // Messages waiting to be handled, in arrival order
+  const queue: T[] = []
+  let draining = false
+
+  // Handle queued messages in order, letting newly arrived messages in before each
+  // request so that cancellations and edits can still drop it
+  const drain = async () => {
+    while (queue.length > 0) {
+      const message = queue.shift()!
+      await options.handle(message)
+      if (queue[0]?.id !== undefined) {
+        await new Promise(resolve => setTimeout(resolve, 0))
+      }
+    }
+    draining = false
+  }
+
+  // Add a message to the queue, first dropping the queued work it makes obsolete
+  return (message: T) => {
+    if (message.method === '$/cancelRequest') {
+      const id = (message.params as { id?: number | string } | undefined)?.id
+      const index = queue.findIndex(queued => queued.id !== undefined && queued.id === id)
+      if (index !== -1) {
+        dropRequest(queue[index], 'Request cancelled')
+        queue.splice(index, 1)
+      }
+      // A request that is already running finishes and is answered as usual
+      return
+    }
+
+    if (message.method === 'textDocument/didChange') {
+      const uri = documentUri(message)
+      for (let index = queue.length - 1; index >= 0; index--) {
+        const queued = queue[index]
+        if (options.supersedableMethods.has(queued.method) && documentUri(queued) === uri) {
+          dropRequest(queued, 'Superseded by a newer document version')
+          queue.splice(index, 1)
+        }
+      }
+    }
+
+    queue.push(message)
+    if (!draining) {
+      draining = true
+      // Handle the queue once the messages that have already arrived are queued too
+      setTimeout(drain, 0)
+    }
+  }
+}
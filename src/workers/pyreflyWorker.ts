@@ -0,0 +1,475 @@
+/**
+ * Pyrefly Language Server Worker
+ *
+ * This worker implements the LSP protocol for pyrefly_wasm, bridging between
+ * the LSP JSON-RPC protocol and Pyrefly's sandbox WASM API.
+ *
+ * Note: Pyrefly's sandbox API uses Monaco conventions: 1-based line numbers and
+ * columns, and Monaco marker severities (Error=8, Warning=4, Info=2, Hint=1).
+ * LSP uses 0-based positions and severities Error=1, Warning=2, Info=3, Hint=4.
+ *
+ * Messages are queued and handled one at a time (see messageQueue.ts), and edits are
+ * checked once the current burst of them is over.
+ */
+
+import * as bundledPyrefly from 'pyrefly_wasm'
+import type { State } from 'pyrefly_wasm'
+import { createMessageQueue } from './messageQueue'
+
+// LSP Protocol types
+interface LSPPosition {
+  line: number
+  character: number
+}
+
+interface LSPRange {
+  start: LSPPosition
+  end: LSPPosition
+}
+
+interface LSPTextDocumentItem {
+  uri: string
+  languageId: string
+  version: number
+  text: string
+}
+
+interface LSPRequest {
+  jsonrpc: '2.0'
+  id?: number | string
+  method: string
+  params?: unknown
+}
+
+interface TextDocumentPositionParams {
+  textDocument: { uri: string }
+  position: LSPPosition
+}
+
+// Pyrefly sandbox types
+interface PyreflyRange {
+  startLineNumber: number
+  startColumn: number
+  endLineNumber: number
+  endColumn: number
+}
+
+interface PyreflyDiagnostic extends PyreflyRange {
+  message_header: string
+  message_details?: string
+  kind: string
+  severity: number
+  filename?: string
+}
+
+interface PyreflyLocation extends PyreflyRange {
+  filename?: string
+}
+
+interface PyreflyHover {
+  contents: { language: string; value: string }[]
+}
+
+interface PyreflyCompletion {
+  label: string
+  detail?: string
+  kind?: number
+  sortText?: string
+  insertText?: string
+}
+
+// Workspace documents are opened by the client as file:///workspace/<path>.
+// Pyrefly's sandbox identifies files by their path relative to the workspace root.
+const WORKSPACE_URI_PREFIX = 'file:///workspace/'
+
+const ERROR_KINDS_DOCUMENTATION_URL = 'https://pyrefly.org/en/docs/error-kinds/'
+// LSP DiagnosticTag for deprecated code, which the editor strikes through
+const DEPRECATED_TAG = 2
+
+// How long to wait for more edits before checking, so a burst of edits is checked once
+const DIAGNOSTICS_DELAY = 150
+
+// Requests whose results are only useful for the document version they were made
+// against. A queued one is dropped when a newer version of its document arrives.
+const SUPERSEDABLE_METHODS = new Set([
+  'textDocument/hover',
+  'textDocument/completion'
+])
+
+// The app starts the worker with a `build` parameter to run another build of Pyrefly
+// than the bundled one: the URL of that build's pyrefly_wasm module
+const BUILD_URL = new URL(self.location.href).searchParams.get('build')
+
+// Worker state
+// The pyrefly_wasm module in use, replaced by the selected build on initialize
+let pyrefly: typeof bundledPyrefly = bundledPyrefly
+let state: State | null = null
+const documents = new Map<string, string>()
+let pythonVersion = '3.12'
+// Installed packages, keyed by path relative to site-packages. The sandbox has a single
+// import root, so they sit next to the workspace modules, which take precedence.
+let sitePackages: Record<string, string> = {}
+// Documents whose text has changed but has not been pushed to the sandbox yet
+const pendingUpdates = new Set<string>()
+let diagnosticsTimer: ReturnType<typeof setTimeout> | null = null
+
+/**
+ * Convert a document URI to the sandbox file name
+ */
+function uriToFilename(uri: string): string {
+  return uri.startsWith(WORKSPACE_URI_PREFIX) ? uri.slice(WORKSPACE_URI_PREFIX.length) : uri
+}
+
+/**
+ * Convert a sandbox file name back to a document URI
+ */
+function filenameToUri(filename: string): string {
+  return filename.includes('://') ? filename : `${WORKSPACE_URI_PREFIX}${filename}`
+}
+
+/**
+ * Convert a Pyrefly range (1-based) to an LSP range (0-based)
+ */
+function pyreflyToLSPRange(range: PyreflyRange): LSPRange {
+  return {
+    start: { line: range.startLineNumber - 1, character: range.startColumn - 1 },
+    end: { line: range.endLineNumber - 1, character: range.endColumn - 1 }
+  }
+}
+
+/**
+ * Convert a Monaco marker severity to an LSP diagnostic severity
+ */
+function pyreflyToLSPSeverity(severity: number): number {
+  switch (severity) {
+    case 8: return 1 // Error
+    case 4: return 2 // Warning
+    case 2: return 3 // Info
+    default: return 4 // Hint
+  }
+}
+
+/**
+ * Push all open documents and installed packages to the sandbox
+ */
+function syncSandboxFiles() {
+  if (!state) return
+  state.updateSandboxFiles(
+    {
+      ...sitePackages,
+      ...Object.fromEntries([...documents].map(([uri, text]) => [uriToFilename(uri), text]))
+    },
+    true
+  )
+  pendingUpdates.clear()
+}
+
+/**
+ * Push the text of every changed document to the sandbox
+ */
+function flushPendingUpdates() {
+  if (!state) return
+  for (const uri of pendingUpdates) {
+    const text = documents.get(uri)
+    if (text !== undefined) {
+      state.updateSingleFile(uriToFilename(uri), text)
+    }
+  }
+  pendingUpdates.clear()
+}
+
+/**
+ * Check and publish diagnostics once the current burst of edits is over
+ */
+function scheduleDiagnostics() {
+  if (diagnosticsTimer !== null) {
+    clearTimeout(diagnosticsTimer)
+  }
+  diagnosticsTimer = setTimeout(() => {
+    diagnosticsTimer = null
+    flushPendingUpdates()
+    publishAllDiagnostics()
+  }, DIAGNOSTICS_DELAY)
+}
+
+/**
+ * Get LSP diagnostics for every open document, keyed by URI
+ */
+function getDiagnostics(): Map<string, unknown[]> {
+  const byUri = new Map<string, unknown[]>([...documents.keys()].map(uri => [uri, []]))
+  if (!state) return byUri
+
+  const errors = (state.getErrors() ?? []) as PyreflyDiagnostic[]
+  for (const error of errors) {
+    const uri = filenameToUri(error.filename ?? '')
+    byUri.get(uri)?.push({
+      range: pyreflyToLSPRange(error),
+      severity: pyreflyToLSPSeverity(error.severity),
+      code: error.kind,
+      codeDescription: { href: `${ERROR_KINDS_DOCUMENTATION_URL}#${error.kind}` },
+      tags: error.kind === 'deprecated' ? [DEPRECATED_TAG] : undefined,
+      message: error.message_details
+        ? `${error.message_header}\n${error.message_details}`
+        : error.message_header,
+      source: 'pyrefly'
+    })
+  }
+  return byUri
+}
+
+/**
+ * Publish diagnostics for every open document, since a change in one module
+ * can affect diagnostics in the modules that import it
+ */
+function publishAllDiagnostics() {
+  for (const [uri, diagnostics] of getDiagnostics()) {
+    sendNotification('textDocument/publishDiagnostics', { uri, diagnostics })
+  }
+}
+
+/**
+ * Make the document the sandbox's active file, which position-based queries use
+ */
+function activate(uri: string): boolean {
+  if (!state || !documents.has(uri)) return false
+  state.setActiveFile(uriToFilename(uri))
+  return true
+}
+
+/**
+ * Send a response back to the main thread
+ */
+function sendResponse(id: number | string | undefined, result: unknown) {
+  self.postMessage({ jsonrpc: '2.0', id, result })
+}
+
+/**
+ * Send an error response back to the main thread
+ */
+function sendError(id: number | string | undefined, code: number, message: string) {
+  self.postMessage({ jsonrpc: '2.0', id, error: { code, message } })
+}
+
+/**
+ * Send a notification to the main thread
+ */
+function sendNotification(method: string, params?: unknown) {
+  self.postMessage({ jsonrpc: '2.0', method, params })
+}
+
+/**
+ * Handle LSP requests
+ */
+async function handleRequest(request: LSPRequest) {
+  const { id, method } = request
+
+  try {
+    // Requests must see the latest text; edits themselves are only recorded
+    if (method !== 'textDocument/didChange') {
+      flushPendingUpdates()
+    }
+
+    switch (method) {
+      case 'initialize': {
+        // Initialize WASM and the sandbox state
+        if (BUILD_URL) {
+          pyrefly = await import(/* @vite-ignore */ BUILD_URL)
+        }
+        await pyrefly.default()
+
+        const params = request.params as {
+          initializationOptions?: { pythonVersion?: string; sitePackages?: { path: string; content: string }[] }
+        }
+        pythonVersion = params?.initializationOptions?.pythonVersion || '3.12'
+        sitePackages = Object.fromEntries(
+          (params?.initializationOptions?.sitePackages ?? []).map(file => [file.path, file.content])
+        )
+        state = new pyrefly.State(pythonVersion)
+
+        sendResponse(id, {
+          capabilities: {
+            textDocumentSync: {
+              openClose: true,
+              change: 1, // Full sync
+            },
+            hoverProvider: true,
+            completionProvider: {
+              triggerCharacters: ['.']
+            },
+            definitionProvider: true
+          }
+        })
+        break
+      }
+
+      case 'initialized': {
+        // Client finished initialization
+        sendNotification('window/logMessage', {
+          type: 3, // Info
+          message: 'Pyrefly language server initialized'
+        })
+        break
+      }
+
+      case 'workspace/didChangeConfiguration': {
+        const params = request.params as { settings?: { python?: { pythonVersion?: string } } }
+        const version = params?.settings?.python?.pythonVersion
+        if (state && version && version !== pythonVersion) {
+          // The sandbox takes its Python version on creation, so swap in a new one
+          pythonVersion = version
+          state = new pyrefly.State(pythonVersion)
+          syncSandboxFiles()
+          scheduleDiagnostics()
+        }
+        break
+      }
+
+      case 'textDocument/didOpen': {
+        const doc = (request.params as { textDocument: LSPTextDocumentItem }).textDocument
+        documents.set(doc.uri, doc.text)
+        syncSandboxFiles()
+        scheduleDiagnostics()
+        break
+      }
+
+      case 'textDocument/didChange': {
+        const params = request.params as {
+          textDocument: { uri: string }
+          contentChanges: { text: string }[]
+        }
+        const uri = params.textDocument.uri
+
+        if (documents.has(uri) && params.contentChanges.length > 0) {
+          // Full document sync
+          const newText = params.contentChanges[params.contentChanges.length - 1].text
+          documents.set(uri, newText)
+          pendingUpdates.add(uri)
+          scheduleDiagnostics()
+        }
+        break
+      }
+
+      case 'textDocument/didClose': {
+        const uri = (request.params as { textDocument: { uri: string } }).textDocument.uri
+
+        if (documents.delete(uri)) {
+          pendingUpdates.delete(uri)
+          syncSandboxFiles()
+          // Clear the closed file's diagnostics and refresh its importers
+          sendNotification('textDocument/publishDiagnostics', { uri, diagnostics: [] })
+          scheduleDiagnostics()
+        }
+        break
+      }
+
+      case 'textDocument/hover': {
+        const { textDocument, position } = request.params as TextDocumentPositionParams
+
+        if (!activate(textDocument.uri)) {
+          sendResponse(id, null)
+          break
+        }
+
+        const hover = state!.queryType(position.line + 1, position.character + 1) as PyreflyHover | null
+        if (hover && hover.contents.length > 0) {
+          sendResponse(id, {
+            contents: {
+              kind: 'markdown',
+              value: hover.contents
+                .map(content => `\`\`\`${content.language}\n${content.value}\n\`\`\``)
+                .join('\n')
+            }
+          })
+        } else {
+          sendResponse(id, null)
+        }
+        break
+      }
+
+      case 'textDocument/completion': {
+        const { textDocument, position } = request.params as TextDocumentPositionParams
+
+        if (!activate(textDocument.uri)) {
+          sendResponse(id, { items: [] })
+          break
+        }
+
+        const completions = (state!.autoComplete(position.line + 1, position.character + 1) ?? []) as PyreflyCompletion[]
+        const items = completions.map(comp => ({
+          label: comp.label,
+          kind: comp.kind ?? 1, // Default to Text
+          detail: comp.detail,
+          sortText: comp.sortText,
+          insertText: comp.insertText || comp.label
+        }))
+
+        sendResponse(id, { items })
+        break
+      }
+
+      case 'textDocument/definition': {
+        const { textDocument, position } = request.params as TextDocumentPositionParams
+
+        if (!activate(textDocument.uri)) {
+          sendResponse(id, [])
+          break
+        }
+
+        const definition = state!.gotoDefinition(position.line + 1, position.character + 1) as PyreflyLocation | null
+        if (definition) {
+          sendResponse(id, [{
+            uri: definition.filename ? filenameToUri(definition.filename) : textDocument.uri,
+            range: pyreflyToLSPRange(definition)
+          }])
+        } else {
+          sendResponse(id, [])
+        }
+        break
+      }
+
+      case 'shutdown': {
+        sendResponse(id, null)
+        break
+      }
+
+      case 'exit': {
+        self.close()
+        break
+      }
+
+      default: {
+        // Notifications never get a response, so unknown ones are ignored
+        if (id !== undefined) {
+          sendError(id, -32601, `Method not found: ${method}`)
+        }
+        break
+      }
+    }
+  } catch (error) {
+    console.error('Error handling LSP request:', error)
+    if (id !== undefined) {
+      sendError(id, -32603, `Internal error: ${error}`)
+    }
+    // A panic leaves the WASM module unusable, so ask for a restart
+    if (error instanceof WebAssembly.RuntimeError) {
+      self.postMessage({ type: 'crash', reason: `${method} panicked: ${error.message}` })
+    }
+  }
+}
+
+const enqueueMessage = createMessageQueue({
+  handle: handleRequest,
+  supersedableMethods: SUPERSEDABLE_METHODS
+})
+
+// Listen for messages from the main thread
+self.addEventListener('message', (event: MessageEvent) => {
+  const message = event.data
+
+  if (typeof message === 'object' && message.jsonrpc === '2.0') {
+    enqueueMessage(message as LSPRequest)
+  }
+})
+
+// Notify that the worker is ready
+self.postMessage({ type: 'worker-ready' })
@@ -6,13 +6,17 @@
  *
  * Note: ty uses 1-based indexing for positions (line 1, column 1 is the first character)
  * LSP uses 0-based indexing for positions (line 0, character 0 is the first character)
+ *
+ * Messages are queued and handled one at a time (see messageQueue.ts). Requests still
+ * waiting in the queue can be cancelled with $/cancelRequest, and position-based
+ * queries are dropped when a newer version of their document arrives.
  */
 
-import init, {
+import * as bundledTy from 'ty_wasm'
+import type {
   Workspace,
   FileHandle,
   Position as TyPosition,
-  PositionEncoding,
   Diagnostic as TyDiagnostic,
   Completion as TyCompletion,
   TextEdit as TyTextEdit,
@@ -20,8 +24,14 @@ import init, {
   DocumentHighlight as TyDocumentHighlight,
   SignatureInformation as TySignatureInformation,
   ParameterInformation as TyParameterInformation,
+  InlayHint as TyInlayHint,
+  InlayHintLabelPart as TyInlayHintLabelPart,
+  CodeAction as TyCodeAction,
+  SemanticToken as TySemanticToken,
+  DocumentSymbol as TyDocumentSymbol,
   Range as TyRange
 } from 'ty_wasm'
+import { createMessageQueue } from './messageQueue'
 
 // LSP Protocol types
 interface LSPPosition {
@@ -41,6 +51,23 @@ interface LSPTextDocumentItem {
   text: string
 }
 
+/**
+ * A didChange content change: a range edit, or the full text when range is omitted
+ */
+interface LSPContentChange {
+  range?: LSPRange
+  text: string
+}
+
+interface LSPDocumentSymbol {
+  name: string
+  detail?: string
+  kind: number
+  range: LSPRange
+  selectionRange: LSPRange
+  children: LSPDocumentSymbol[]
+}
+
 interface LSPRequest {
   jsonrpc: '2.0'
   id?: number | string
@@ -65,16 +92,151 @@ interface LSPNotification {
   params?: any
 }
 
+// Workspace documents are opened by the client as file:///workspace/<path>.
+// ty sees them at /<path> so that the project root ("/") is the import root and
+// sibling modules and packages resolve like they would on disk.
+const WORKSPACE_URI_PREFIX = 'file:///workspace/'
+// Installed packages are written to the virtual environment's site-packages (the
+// app's SITE_PACKAGES_DIR), which is added to ty's search paths
+const SITE_PACKAGES_PATH = '/.venv/lib/site-packages'
+
+// The app starts the worker with a `build` parameter to run another build of ty than
+// the bundled one: the URL of that build's ty_wasm module
+const BUILD_URL = new URL(self.location.href).searchParams.get('build')
+
 // Worker state
+// The ty_wasm module in use, replaced by the selected build on initialize
+let ty: typeof bundledTy = bundledTy
 let workspace: Workspace | null = null
 let fileHandles = new Map<string, FileHandle>()
 let pythonVersion = '3.12'
+let hasSitePackages = false
+// Current text of each open document, edited in place by incremental changes
+const documentTexts = new Map<string, string>()
+// Documents whose text has changed but has not been pushed to ty yet
+const pendingUpdates = new Set<string>()
+let diagnosticsTimer: ReturnType<typeof setTimeout> | null = null
+
+// Last semantic tokens sent for each document, the base for the next delta
+const semanticTokenResults = new Map<string, { resultId: string; data: number[] }>()
+let nextSemanticTokensResultId = 1
+
+// Names accepted by textDocument/rename: identifiers that aren't keywords
+const IDENTIFIER = /^[\p{L}\p{Nl}_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}]*$/u
+const KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+  'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+  'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield'
+])
+
+// How long to wait for more edits before checking, so a burst of edits is checked once
+const DIAGNOSTICS_DELAY = 150
+
+// JSON-RPC error codes
+const METHOD_NOT_FOUND = -32601
+const INVALID_PARAMS = -32602
+const INTERNAL_ERROR = -32603
+
+// Requests whose results are only useful for the document version they were made
+// against. A queued one is dropped when a newer version of its document arrives.
+const SUPERSEDABLE_METHODS = new Set([
+  'textDocument/hover',
+  'textDocument/completion',
+  'textDocument/diagnostic'
+])
+// ty_wasm diagnostics carry no tags, so they are derived from the rule: LSP
+// DiagnosticTag 1 is Unnecessary (shown faded), 2 is Deprecated (struck through)
+const RULE_TAGS: Record<string, number[]> = {
+  'deprecated': [2],
+  'unused-ignore-comment': [1]
+}
+const RULES_DOCUMENTATION_URL = 'https://docs.astral.sh/ty/reference/rules/'
+
+// Options from the workspace's ty.toml or [tool.ty], and the URI of the file they came from
+let configuration: Record<string, unknown> | null = null
+let configurationUri: string | null = null
+
+/**
+ * Convert a document URI to the path ty uses for it
+ */
+function uriToTyPath(uri: string): string {
+  return uri.startsWith(WORKSPACE_URI_PREFIX) ? `/${uri.slice(WORKSPACE_URI_PREFIX.length)}` : uri
+}
+
+/**
+ * Convert a ty path back to a document URI
+ */
+function tyPathToUri(path: string): string {
+  if (path.startsWith('file://')) {
+    return path
+  }
+  return `${WORKSPACE_URI_PREFIX}${path.replace(/^\/+/, '')}`
+}
+
+/**
+ * Convert an LSP position to an offset into the text. Both count UTF-16 code units.
+ */
+function positionToOffset(text: string, position: LSPPosition): number {
+  let lineStart = 0
+  for (let line = 0; line < position.line; line++) {
+    const newline = text.indexOf('\n', lineStart)
+    if (newline === -1) return text.length
+    lineStart = newline + 1
+  }
+  const lineEnd = text.indexOf('\n', lineStart)
+  return Math.min(lineStart + position.character, lineEnd === -1 ? text.length : lineEnd)
+}
+
+/**
+ * Apply didChange content changes, in order, to a document's text
+ */
+function applyContentChanges(text: string, changes: LSPContentChange[]): string {
+  for (const change of changes) {
+    if (change.range) {
+      const from = positionToOffset(text, change.range.start)
+      const to = positionToOffset(text, change.range.end)
+      text = text.slice(0, from) + change.text + text.slice(to)
+    } else {
+      text = change.text
+    }
+  }
+  return text
+}
+
+/**
+ * Push the text of every changed document to ty
+ */
+function flushPendingUpdates() {
+  if (!workspace) return
+  for (const uri of pendingUpdates) {
+    const handle = fileHandles.get(uri)
+    const text = documentTexts.get(uri)
+    if (handle && text !== undefined) {
+      workspace.updateFile(handle, text)
+    }
+  }
+  pendingUpdates.clear()
+}
+
+/**
+ * Check and publish diagnostics once the current burst of edits is over
+ */
+function scheduleDiagnostics() {
+  if (diagnosticsTimer !== null) {
+    clearTimeout(diagnosticsTimer)
+  }
+  diagnosticsTimer = setTimeout(() => {
+    diagnosticsTimer = null
+    flushPendingUpdates()
+    publishAllDiagnostics()
+  }, DIAGNOSTICS_DELAY)
+}
 
 /**
  * Convert LSP position (0-based) to ty position (1-based)
  */
 function lspToTyPosition(pos: LSPPosition): TyPosition {
-  return new TyPosition(pos.line + 1, pos.character + 1)
+  return new ty.Position(pos.line + 1, pos.character + 1)
 }
 
 /**
@@ -109,23 +271,9 @@ function tyLocationLinkToLSPLocation(loc: TyLocationLink): { uri: string; range:
   // Access the WASM properties and convert to plain objects
   const fullRange = loc.full_range
 
-  // ty_wasm returns paths in its virtual filesystem format
-  // When we pass "file:///main.py" as the document URI, ty stores it as "/file:/main.py"
-  // We need to convert it back to a proper file:// URI
-  let uri = loc.path
-
-  // Handle the case where ty returns "/file:/path" format
-  if (uri.startsWith('/file:/')) {
-    // Extract the path after "/file:" and make it a proper file URI
-    const actualPath = uri.substring(6) // Remove "/file:" prefix, keep the path with leading /
-    uri = `file://${actualPath}`
-  } else if (!uri.startsWith('file://')) {
-    // Regular path - convert to file URI
-    uri = `file://${uri}`
-  }
-
+  // ty_wasm returns paths in its virtual filesystem format, map them back to URIs
   return {
-    uri,
+    uri: tyPathToUri(loc.path),
     range: tyToLSPRange(fullRange)
   }
 }
@@ -136,18 +284,165 @@ function tyLocationLinkToLSPLocation(loc: TyLocationLink): { uri: string; range:
 function getDiagnostics(handle: FileHandle): any[] {
   if (!workspace) return []
 
-  const diagnostics = workspace.checkFile(handle)
-  return diagnostics.map((diag: TyDiagnostic) => {
-    const range = diag.toRange(workspace!)
-    const severity = diag.severity()
+  return workspace.checkFile(handle).map(toLSPDiagnostic)
+}
 
-    return {
-      range: range ? tyToLSPRange(range) : { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
-      severity: severity === 2 ? 1 : severity === 1 ? 2 : 3, // ty: Error=2, Warning=1, Info=0 -> LSP: Error=1, Warning=2, Info=3
-      message: diag.message(),
-      source: 'ty'
+/**
+ * Convert a ty diagnostic to an LSP diagnostic
+ */
+function toLSPDiagnostic(diag: TyDiagnostic) {
+  const range = diag.toRange(workspace!)
+  const severity = diag.severity()
+
+  const rule = diag.id()
+
+  return {
+    range: range ? tyToLSPRange(range) : { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+    severity: severity === 2 ? 1 : severity === 1 ? 2 : 3, // ty: Error=2, Warning=1, Info=0 -> LSP: Error=1, Warning=2, Info=3
+    code: rule,
+    codeDescription: { href: `${RULES_DOCUMENTATION_URL}#${rule}` },
+    tags: RULE_TAGS[rule],
+    message: diag.message(),
+    source: 'ty'
+  }
+}
+
+/**
+ * Build a quick fix that silences a rule on the diagnostic's line with a
+ * `# ty: ignore[rule]` comment, extending an existing one if the line has it
+ */
+function suppressionAction(uri: string, diagnostic: ReturnType<typeof toLSPDiagnostic>) {
+  const text = documentTexts.get(uri)
+  if (text === undefined) return null
+
+  const line = text.split('\n')[diagnostic.range.start.line] ?? ''
+  const rule = diagnostic.code
+  const existing = /#\s*ty:\s*ignore\[([^\]]*)\]/.exec(line)
+  let edit: { range: LSPRange; newText: string }
+
+  if (existing) {
+    const rules = existing[1].split(',').map(name => name.trim()).filter(Boolean)
+    if (rules.includes(rule)) return null
+    const character = existing.index + existing[0].length - 1
+    edit = {
+      range: { start: { line: diagnostic.range.start.line, character }, end: { line: diagnostic.range.start.line, character } },
+      newText: rules.length > 0 ? `, ${rule}` : rule
     }
-  })
+  } else {
+    const character = line.trimEnd().length
+    edit = {
+      range: { start: { line: diagnostic.range.start.line, character }, end: { line: diagnostic.range.start.line, character: line.length } },
+      newText: `  # ty: ignore[${rule}]`
+    }
+  }
+
+  return {
+    title: `Ignore '${rule}' for this line`,
+    kind: 'quickfix',
+    diagnostics: [diagnostic],
+    edit: { changes: { [uri]: [edit] } }
+  }
+}
+
+/**
+ * Encode ty's semantic tokens in the LSP relative format. Tokens spanning several
+ * lines (e.g. triple-quoted strings) are split into one token per line.
+ */
+function encodeSemanticTokens(uri: string, tokens: TySemanticToken[]): number[] {
+  const lines = (documentTexts.get(uri) ?? '').split('\n')
+  const data: number[] = []
+  let previousLine = 0
+  let previousCharacter = 0
+
+  for (const token of tokens) {
+    const range = tyToLSPRange(token.range)
+    for (let line = range.start.line; line <= range.end.line; line++) {
+      const start = line === range.start.line ? range.start.character : 0
+      const end = line === range.end.line ? range.end.character : (lines[line]?.length ?? 0)
+      if (end <= start) continue
+
+      data.push(
+        line - previousLine,
+        line === previousLine ? start - previousCharacter : start,
+        end - start,
+        token.kind,
+        token.modifiers
+      )
+      previousLine = line
+      previousCharacter = start
+    }
+  }
+  return data
+}
+
+/**
+ * Compute the semantic tokens of a document and remember them as the base for deltas
+ */
+function semanticTokens(uri: string, handle: FileHandle): { resultId: string; data: number[] } {
+  const result = {
+    resultId: String(nextSemanticTokensResultId++),
+    data: encodeSemanticTokens(uri, workspace!.semanticTokens(handle))
+  }
+  semanticTokenResults.set(uri, result)
+  return result
+}
+
+/**
+ * The single edit that turns one token array into another: everything between their
+ * common prefix and common suffix
+ */
+function semanticTokensEdit(previous: number[], next: number[]) {
+  let start = 0
+  while (start < previous.length && start < next.length && previous[start] === next[start]) start++
+
+  let end = 0
+  while (
+    end < previous.length - start &&
+    end < next.length - start &&
+    previous[previous.length - 1 - end] === next[next.length - 1 - end]
+  ) end++
+
+  return { start, deleteCount: previous.length - start - end, data: next.slice(start, next.length - end) }
+}
+
+// LSP SymbolKind for each ty symbol kind, by name, since builds of ty may number
+// the kinds differently
+const SYMBOL_KINDS: Record<string, number> = {
+  Module: 2,
+  Class: 5,
+  Method: 6,
+  Property: 7,
+  Field: 8,
+  Constructor: 9,
+  Enum: 10,
+  Interface: 11,
+  Function: 12,
+  Variable: 13,
+  Constant: 14,
+  EnumMember: 22,
+  TypeParameter: 26
+}
+
+/**
+ * Convert a ty document symbol and its children to an LSP DocumentSymbol
+ */
+function tyToLSPDocumentSymbol(symbol: TyDocumentSymbol): LSPDocumentSymbol {
+  return {
+    name: symbol.name,
+    detail: symbol.detail ?? undefined,
+    kind: SYMBOL_KINDS[ty.SymbolKind[symbol.kind]] ?? 13,
+    range: tyToLSPRange(symbol.full_range),
+    selectionRange: tyToLSPRange(symbol.selection_range),
+    children: symbol.children.map(tyToLSPDocumentSymbol)
+  }
+}
+
+/**
+ * Whether two LSP ranges overlap or touch
+ */
+function rangesIntersect(a: LSPRange, b: LSPRange): boolean {
+  const before = (x: LSPPosition, y: LSPPosition) => x.line < y.line || (x.line === y.line && x.character < y.character)
+  return !before(a.end, b.start) && !before(b.end, a.start)
 }
 
 /**
@@ -165,6 +460,80 @@ function publishDiagnostics(uri: string) {
   })
 }
 
+/**
+ * Publish diagnostics for every open file, since a change in one module
+ * can affect diagnostics in the modules that import it
+ */
+function publishAllDiagnostics() {
+  for (const uri of fileHandles.keys()) {
+    publishDiagnostics(uri)
+  }
+}
+
+/**
+ * Build the ty options: the workspace configuration, with the playground's Python
+ * version and, when packages are installed, their site-packages as an extra search path
+ */
+function buildOptions(): Record<string, unknown> {
+  const environment = configuration?.environment as Record<string, unknown> | undefined
+  const extraPaths = (environment?.['extra-paths'] as string[] | undefined) ?? []
+  return {
+    ...configuration,
+    environment: {
+      ...environment,
+      'python-version': pythonVersion,
+      ...(hasSitePackages && { 'extra-paths': [...extraPaths, SITE_PACKAGES_PATH] })
+    }
+  }
+}
+
+/**
+ * Write the installed packages into ty's file system. They stay open, as closing a
+ * file removes it.
+ */
+function installSitePackages(files: { path: string; content: string }[]) {
+  if (!workspace) return
+  for (const file of files) {
+    workspace.openFile(`${SITE_PACKAGES_PATH}/${file.path}`, file.content)
+  }
+}
+
+/**
+ * Apply new workspace configuration. If ty rejects it, the previous options stay in
+ * effect and the error is published as a diagnostic on the configuration file.
+ */
+function applyConfiguration(options: Record<string, unknown> | null, sourceUri: string | null) {
+  if (!workspace) return
+
+  if (configurationUri && configurationUri !== sourceUri) {
+    sendNotification('textDocument/publishDiagnostics', { uri: configurationUri, diagnostics: [] })
+  }
+
+  const previous = configuration
+  configuration = options
+  configurationUri = sourceUri
+
+  try {
+    workspace.updateOptions(buildOptions())
+    if (sourceUri) {
+      sendNotification('textDocument/publishDiagnostics', { uri: sourceUri, diagnostics: [] })
+    }
+  } catch (error) {
+    configuration = previous
+    if (sourceUri) {
+      sendNotification('textDocument/publishDiagnostics', {
+        uri: sourceUri,
+        diagnostics: [{
+          range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+          severity: 1,
+          message: `Invalid ty configuration: ${error}`,
+          source: 'ty'
+        }]
+      })
+    }
+  }
+}
+
 /**
  * Send a response back to the main thread
  */
@@ -208,25 +577,32 @@ async function handleRequest(request: LSPRequest) {
   const { id, method, params } = request
 
   try {
+    // Requests must see the latest text; edits themselves are only recorded
+    if (method !== 'textDocument/didChange') {
+      flushPendingUpdates()
+    }
+
     switch (method) {
       case 'initialize': {
         // Initialize WASM and workspace
-        await init()
+        if (BUILD_URL) {
+          ty = await import(/* @vite-ignore */ BUILD_URL)
+        }
+        await ty.default()
 
         const initOptions = params?.initializationOptions || {}
         pythonVersion = initOptions.pythonVersion || '3.12'
+        const sitePackages = initOptions.sitePackages ?? []
+        hasSitePackages = sitePackages.length > 0
 
-        workspace = new Workspace('/', PositionEncoding.Utf16, {
-          environment: {
-            'python-version': pythonVersion
-          }
-        })
+        workspace = new ty.Workspace('/', ty.PositionEncoding.Utf16, buildOptions())
+        installSitePackages(sitePackages)
 
         sendResponse(id, {
           capabilities: {
             textDocumentSync: {
               openClose: true,
-              change: 1, // Full sync
+              change: 2, // Incremental sync
             },
             hoverProvider: true,
             completionProvider: {
@@ -243,6 +619,18 @@ async function handleRequest(request: LSPRequest) {
             documentFormattingProvider: true,
             inlayHintProvider: true,
             codeActionProvider: true,
+            renameProvider: {
+              prepareProvider: true
+            },
+            documentSymbolProvider: true,
+            semanticTokensProvider: {
+              legend: {
+                tokenTypes: ty.SemanticToken.kinds(),
+                tokenModifiers: ty.SemanticToken.modifiers()
+              },
+              full: { delta: true },
+              range: false
+            },
             diagnosticProvider: {
               interFileDependencies: true,
               workspaceDiagnostics: false
@@ -261,29 +649,42 @@ async function handleRequest(request: LSPRequest) {
         break
       }
 
+      case 'workspace/didChangeConfiguration': {
+        // Either section may come alone; the other keeps its current value
+        const settings = params?.settings ?? {}
+        if (settings.python?.pythonVersion) {
+          pythonVersion = settings.python.pythonVersion
+        }
+        if (settings.ty) {
+          applyConfiguration(settings.ty.options ?? null, settings.ty.sourceUri ?? null)
+        } else {
+          applyConfiguration(configuration, configurationUri)
+        }
+        scheduleDiagnostics()
+        break
+      }
+
       case 'textDocument/didOpen': {
         const doc: LSPTextDocumentItem = params.textDocument
         if (workspace) {
-          const handle = workspace.openFile(doc.uri, doc.text)
+          const handle = workspace.openFile(uriToTyPath(doc.uri), doc.text)
           fileHandles.set(doc.uri, handle)
-          // Publish diagnostics immediately on open
-          publishDiagnostics(doc.uri)
+          documentTexts.set(doc.uri, doc.text)
+          scheduleDiagnostics()
         }
         break
       }
 
       case 'textDocument/didChange': {
         const uri = params.textDocument.uri
-        const changes = params.contentChanges
-        const handle = fileHandles.get(uri)
-
-        if (workspace && handle && changes.length > 0) {
-          // Full document sync
-          const newText = changes[0].text
-          workspace.updateFile(handle, newText)
-
-          // Publish diagnostics on change
-          publishDiagnostics(uri)
+        const changes: LSPContentChange[] = params.contentChanges
+        const text = documentTexts.get(uri)
+
+        if (workspace && text !== undefined && changes.length > 0) {
+          // ty only takes whole files, so record the edit and update ty when it is next needed
+          documentTexts.set(uri, applyContentChanges(text, changes))
+          pendingUpdates.add(uri)
+          scheduleDiagnostics()
         }
         break
       }
@@ -295,6 +696,11 @@ async function handleRequest(request: LSPRequest) {
         if (workspace && handle) {
           workspace.closeFile(handle)
           fileHandles.delete(uri)
+          documentTexts.delete(uri)
+          semanticTokenResults.delete(uri)
+          // Clear the closed file's diagnostics and refresh its importers
+          sendNotification('textDocument/publishDiagnostics', { uri, diagnostics: [] })
+          scheduleDiagnostics()
         }
         break
       }
@@ -508,6 +914,190 @@ async function handleRequest(request: LSPRequest) {
         break
       }
 
+      case 'textDocument/inlayHint': {
+        const uri = params.textDocument.uri
+        const range: LSPRange = params.range
+        const handle = fileHandles.get(uri)
+
+        if (!workspace || !handle) {
+          sendResponse(id, [])
+          break
+        }
+
+        // ty reports inferred variable types and call argument names
+        const hints = workspace.inlayHints(
+          handle,
+          new ty.Range(lspToTyPosition(range.start), lspToTyPosition(range.end))
+        )
+
+        sendResponse(id, hints.map((hint: TyInlayHint) => ({
+          position: tyToLSPPosition(hint.position),
+          label: hint.label.map((part: TyInlayHintLabelPart) => ({
+            value: part.label,
+            location: part.location ? tyLocationLinkToLSPLocation(part.location) : undefined
+          })),
+          kind: hint.kind === ty.InlayHintKind.Type ? 1 : 2, // LSP: Type=1, Parameter=2
+          textEdits: hint.text_edits.map((edit: TyTextEdit) => ({
+            range: tyToLSPRange(edit.range),
+            newText: edit.new_text
+          }))
+        })))
+        break
+      }
+
+      case 'textDocument/codeAction': {
+        const uri = params.textDocument.uri
+        const range: LSPRange = params.range
+        const handle = fileHandles.get(uri)
+
+        if (!workspace || !handle) {
+          sendResponse(id, [])
+          break
+        }
+
+        // Fixes are computed from ty's own diagnostics, not the ones the client sent back
+        const actions = []
+        for (const diag of workspace.checkFile(handle)) {
+          const diagnostic = toLSPDiagnostic(diag)
+          if (!rangesIntersect(diagnostic.range, range)) continue
+
+          const fixes = workspace.codeActions(handle, diag).map((action: TyCodeAction) => ({
+            title: action.title,
+            kind: 'quickfix',
+            diagnostics: [diagnostic],
+            isPreferred: action.preferred,
+            edit: {
+              changes: {
+                [uri]: action.edits.map((edit: TyTextEdit) => ({
+                  range: tyToLSPRange(edit.range),
+                  newText: edit.new_text
+                }))
+              }
+            }
+          }))
+          actions.push(...fixes)
+
+          // Offer a suppression comment for every rule, unless ty already suggested one
+          if (!fixes.some((fix: { title: string }) => fix.title.startsWith('Ignore'))) {
+            const suppression = suppressionAction(uri, diagnostic)
+            if (suppression) actions.push(suppression)
+          }
+        }
+
+        sendResponse(id, actions)
+        break
+      }
+
+      case 'textDocument/documentSymbol': {
+        const uri = params.textDocument.uri
+        const handle = fileHandles.get(uri)
+
+        if (!workspace || !handle) {
+          sendResponse(id, [])
+          break
+        }
+
+        sendResponse(id, workspace.documentSymbols(handle).map(tyToLSPDocumentSymbol))
+        break
+      }
+
+      case 'textDocument/semanticTokens/full': {
+        const uri = params.textDocument.uri
+        const handle = fileHandles.get(uri)
+
+        if (!workspace || !handle) {
+          sendResponse(id, { data: [] })
+          break
+        }
+
+        sendResponse(id, semanticTokens(uri, handle))
+        break
+      }
+
+      case 'textDocument/semanticTokens/full/delta': {
+        const uri = params.textDocument.uri
+        const handle = fileHandles.get(uri)
+
+        if (!workspace || !handle) {
+          sendResponse(id, { data: [] })
+          break
+        }
+
+        // Without the result the client has, only a full response makes sense
+        const previous = semanticTokenResults.get(uri)
+        const next = semanticTokens(uri, handle)
+        if (!previous || previous.resultId !== params.previousResultId) {
+          sendResponse(id, next)
+          break
+        }
+
+        const edit = semanticTokensEdit(previous.data, next.data)
+        sendResponse(id, {
+          resultId: next.resultId,
+          edits: edit.deleteCount === 0 && edit.data.length === 0 ? [] : [edit]
+        })
+        break
+      }
+
+      case 'textDocument/prepareRename': {
+        const uri = params.textDocument.uri
+        const position: LSPPosition = params.position
+        const handle = fileHandles.get(uri)
+
+        if (!workspace || !handle) {
+          sendResponse(id, null)
+          break
+        }
+
+        // ty returns the range of the symbol under the cursor, or nothing if it can't be renamed
+        const range = workspace.prepareRename(handle, lspToTyPosition(position))
+        if (!range) {
+          sendResponse(id, null)
+          break
+        }
+
+        const lspRange = tyToLSPRange(range)
+        const text = documentTexts.get(uri) ?? ''
+        sendResponse(id, {
+          range: lspRange,
+          placeholder: text.slice(positionToOffset(text, lspRange.start), positionToOffset(text, lspRange.end))
+        })
+        break
+      }
+
+      case 'textDocument/rename': {
+        const uri = params.textDocument.uri
+        const position: LSPPosition = params.position
+        const newName: string = params.newName
+        const handle = fileHandles.get(uri)
+
+        if (!workspace || !handle) {
+          sendResponse(id, null)
+          break
+        }
+
+        if (!IDENTIFIER.test(newName) || KEYWORDS.has(newName)) {
+          sendError(id, INVALID_PARAMS, `'${newName}' is not a valid Python identifier`)
+          break
+        }
+
+        // ty reports every occurrence of the symbol; each one is replaced by the new name
+        const locations = workspace.rename(handle, lspToTyPosition(position), newName)
+        if (!locations) {
+          sendResponse(id, null)
+          break
+        }
+
+        const changes: Record<string, { range: LSPRange; newText: string }[]> = {}
+        for (const loc of locations) {
+          const { uri: target, range } = tyLocationLinkToLSPLocation(loc)
+          changes[target] = [...(changes[target] ?? []), { range, newText: newName }]
+        }
+
+        sendResponse(id, { changes })
+        break
+      }
+
       case 'textDocument/formatting': {
         const uri = params.textDocument.uri
         const handle = fileHandles.get(uri)
@@ -550,22 +1140,37 @@ async function handleRequest(request: LSPRequest) {
       }
 
       default: {
-        sendError(id, -32601, `Method not found: ${method}`)
+        // Unknown notifications (including optional $/ ones) are ignored
+        if (id !== undefined) {
+          sendError(id, METHOD_NOT_FOUND, `Method not found: ${method}`)
+        }
         break
       }
     }
   } catch (error) {
     console.error('Error handling LSP request:', error)
-    sendError(id, -32603, `Internal error: ${error}`)
+    // Notifications never get a response, not even an error
+    if (id !== undefined) {
+      sendError(id, INTERNAL_ERROR, `Internal error: ${error}`)
+    }
+    // A panic leaves the WASM module unusable, so ask for a restart
+    if (error instanceof WebAssembly.RuntimeError) {
+      self.postMessage({ type: 'crash', reason: `${method} panicked: ${error.message}` })
+    }
   }
 }
 
+const enqueueMessage = createMessageQueue({
+  handle: handleRequest,
+  supersedableMethods: SUPERSEDABLE_METHODS
+})
+
 // Listen for messages from the main thread
-self.addEventListener('message', async (event: MessageEvent) => {
+self.addEventListener('message', (event: MessageEvent) => {
   const message = event.data
 
   if (typeof message === 'object' && message.jsonrpc === '2.0') {
-    await handleRequest(message as LSPRequest)
+    enqueueMessage(message as LSPRequest)
   }
 })
 
@@ -5,6 +5,6 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
   plugins: [react()],
   optimizeDeps: {
-    exclude: ['ty_wasm']
+    exclude: ['ty_wasm', 'pyrefly_wasm']
   }
 })